@@ -0,0 +1,73 @@
+import { readFileSync, writeFileSync, readdirSync, existsSync, mkdirSync } from "fs";
+import { join } from "path";
+import type CDP from "chrome-remote-interface";
+import { config } from "./config.js";
+
+/** A site's login state: its cookies plus the origin's web storage */
+export interface AuthState {
+  name: string;
+  /** Origin the storage belongs to, e.g. https://dash.example.com */
+  origin: string;
+  savedAt: string;
+  cookies: CDP.Cookie[];
+  localStorage: Record<string, string>;
+  sessionStorage: Record<string, string>;
+}
+
+const NAME_PATTERN = /^[\w.-]+$/;
+
+function statePath(name: string): string {
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid auth state name "${name}" — use letters, digits, '.', '-' or '_'.`);
+  }
+  return join(config.authDir, `${name}.json`);
+}
+
+/** Write an auth state to ~/.gemini-chrome/auth/<name>.json (owner-only: it holds session tokens) */
+export function saveAuthState(state: AuthState): string {
+  mkdirSync(config.authDir, { recursive: true, mode: 0o700 });
+  const path = statePath(state.name);
+  writeFileSync(path, JSON.stringify(state, null, 2), { encoding: "utf-8", mode: 0o600 });
+  return path;
+}
+
+export function loadAuthState(name: string): AuthState {
+  const path = statePath(name);
+  if (!existsSync(path)) {
+    const saved = listAuthStates();
+    throw new Error(
+      `No saved auth state "${name}".` + (saved.length > 0 ? ` Saved: ${saved.join(", ")}` : "")
+    );
+  }
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+/** Names of all saved auth states */
+export function listAuthStates(): string[] {
+  if (!existsSync(config.authDir)) return [];
+  return readdirSync(config.authDir)
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => f.slice(0, -".json".length))
+    .sort();
+}
+
+/**
+ * Script run before any page script on every new document: fills in web
+ * storage for the state's origin, leaving keys the app has since changed alone.
+ */
+export function storageInjectionScript(state: AuthState): string {
+  return `
+    (function() {
+      if (location.origin !== ${JSON.stringify(state.origin)}) return;
+      const fill = (storage, items) => {
+        for (const [key, value] of Object.entries(items)) {
+          if (storage.getItem(key) === null) storage.setItem(key, value);
+        }
+      };
+      try {
+        fill(localStorage, ${JSON.stringify(state.localStorage)});
+        fill(sessionStorage, ${JSON.stringify(state.sessionStorage)});
+      } catch (e) { /* storage disabled */ }
+    })();
+  `;
+}
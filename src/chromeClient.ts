@@ -1,8 +1,93 @@
 import CDP from "chrome-remote-interface";
-import { writeFileSync, mkdirSync } from "fs";
-import { dirname } from "path";
-import { spawn } from "child_process";
+import { writeFileSync, mkdirSync, rmSync, statSync } from "fs";
+import { basename, dirname, join } from "path";
+import { spawn, type ChildProcess } from "child_process";
 import { config } from "./config.js";
+import {
+  NetworkRecorder,
+  formatEntry,
+  globToRegExp,
+  toHar,
+  type NetworkFilter,
+} from "./network.js";
+import {
+  ConsoleRecorder,
+  formatConsoleEntry,
+  type ConsoleLevel,
+} from "./consoleLog.js";
+import {
+  FrameManager,
+  DEEP_QUERY_JS,
+  splitFrameScope,
+  type ElementHandle,
+  type FrameContext,
+} from "./frames.js";
+import { DialogManager, type DialogInfo, type DialogPrompter } from "./dialogs.js";
+import {
+  saveAuthState,
+  loadAuthState,
+  storageInjectionScript,
+  type AuthState,
+} from "./authState.js";
+import {
+  DEVICE_PRESETS,
+  applyEmulation,
+  describeEmulation,
+  findPreset,
+  type EmulationState,
+} from "./emulation.js";
+import { findChrome, resolveLaunch, type LaunchOptions, type ResolvedLaunch } from "./launcher.js";
+import { Interceptor, formatRule, type InterceptRule } from "./intercept.js";
+import { DownloadTracker, formatSize } from "./downloads.js";
+import { ScreenRecorder, type RecordingFormat, type RecordingInfo } from "./recorder.js";
+import {
+  NETWORK_PROFILES,
+  VITALS_COLLECT_JS,
+  VITALS_OBSERVER_JS,
+  findNetworkProfile,
+  formatPerformanceReport,
+  type NetworkProfile,
+  type PageVitals,
+} from "./performance.js";
+import {
+  parseKeys,
+  keyForCharacter,
+  modifierKeys,
+  editingCommands,
+  MODIFIER_BITS,
+  type KeyChord,
+} from "./keys.js";
+import {
+  PAGE_MARKDOWN_JS,
+  PAGE_TEXT_CHUNK_CHARS,
+  chunkMarkdown,
+  splitSections,
+  searchSections,
+  type FrameMarkdown,
+} from "./pageText.js";
+import {
+  extractExpression,
+  nextPageExpression,
+  writeRows,
+  NEXT_MARKER,
+  type ExtractOptions,
+  type ExtractedRow,
+} from "./extract.js";
+import {
+  CHANGES_START_JS,
+  CHANGES_END_JS,
+  CHANGES_STOP_JS,
+  describeChanges,
+  type ChangeObservation,
+  type PageState,
+} from "./pageChanges.js";
+import {
+  evaluateExpression,
+  truncateOutput,
+  SERIALIZE_RESULT_FN,
+  EVALUATE_TIMEOUT_MS,
+  EVALUATE_OBJECT_GROUP,
+} from "./evaluate.js";
 
 interface TabInfo {
   id: string;
@@ -11,61 +96,666 @@ interface TabInfo {
   webSocketDebuggerUrl?: string;
 }
 
+/** Per-tab recordings that outlive a single CDP connection */
+interface TabState {
+  network: NetworkRecorder;
+  console: ConsoleRecorder;
+}
+
+/** An interactive node from the last accessibility snapshot, addressable as ref=N */
+interface ElementRef {
+  backendNodeId: number;
+  role: string;
+  name: string;
+}
+
+/** Roles that get a numbered ref in snapshots (things the model can act on) */
+const INTERACTIVE_ROLES = new Set([
+  "button",
+  "link",
+  "textbox",
+  "searchbox",
+  "checkbox",
+  "radio",
+  "combobox",
+  "listbox",
+  "option",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "tab",
+  "switch",
+  "slider",
+  "spinbutton",
+  "treeitem",
+]);
+
+/** Structural roles that add nothing on their own — their children are hoisted */
+const TRANSPARENT_ROLES = new Set([
+  "generic",
+  "none",
+  "presentation",
+  "InlineTextBox",
+  "LineBreak",
+]);
+
+/** AX properties worth surfacing as element state */
+const STATE_PROPERTIES = [
+  "focused",
+  "disabled",
+  "checked",
+  "pressed",
+  "selected",
+  "expanded",
+  "required",
+  "invalid",
+  "level",
+];
+
+/** Max snapshot size sent to the model */
+const SNAPSHOT_MAX_CHARS = 20000;
+
+/** Object group for nodes resolved from refs, released after each tool call */
+const REF_OBJECT_GROUP = "gemini-refs";
+
+/** Parse a `ref=17` element target. Returns null for selectors/text. */
+function parseRef(target: string): number | null {
+  const match = target.trim().match(/^\[?ref=(\d+)\]?$/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * A page condition to wait for. Every condition given must hold at once.
+ * Used by chrome_wait_for and optionally after navigate/click.
+ */
+export interface WaitCondition {
+  /** CSS selector that must match a visible element */
+  selector?: string;
+  /** CSS selector that must match no visible element */
+  selectorGone?: string;
+  /** Text that must appear in the page (case-insensitive) */
+  text?: string;
+  /** Substring or glob the URL must match */
+  url?: string;
+  /** The URL must differ from what it was when the wait started */
+  urlChanged?: boolean;
+  /** No network requests in flight for NETWORK_IDLE_MS */
+  networkIdle?: boolean;
+  timeoutMs?: number;
+}
+
+const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+const MAX_WAIT_TIMEOUT_MS = 60000;
+const WAIT_POLL_MS = 100;
+const NETWORK_IDLE_MS = 500;
+
+/** Human-readable description of a wait condition for results and errors */
+function describeCondition(cond: WaitCondition): string {
+  const parts: string[] = [];
+  if (cond.selector) parts.push(`selector "${cond.selector}" to appear`);
+  if (cond.selectorGone) parts.push(`selector "${cond.selectorGone}" to disappear`);
+  if (cond.text) parts.push(`text "${cond.text}" to appear`);
+  if (cond.url) parts.push(`URL to match "${cond.url}"`);
+  if (cond.urlChanged) parts.push("URL to change");
+  if (cond.networkIdle) parts.push("network to go idle");
+  return parts.join(" and ");
+}
+
+/** True if the condition asks for anything at all */
+export function hasCondition(cond?: WaitCondition): cond is WaitCondition {
+  return !!cond && describeCondition(cond) !== "";
+}
+
+/** Mouse button options for pointer actions */
+interface PointerOptions {
+  button?: "left" | "right" | "middle";
+  clickCount?: number;
+  /** CDP modifier bitmask — see parseModifiers() in keys.ts */
+  modifiers?: number;
+}
+
+/**
+ * Finds a described element in a screenshot, returning its center in
+ * thousandths of the image size (0-1000), or null if it isn't visible.
+ */
+export type ElementLocator = (
+  image: { mimeType: string; data: string },
+  description: string
+) => Promise<{ x: number; y: number } | null>;
+
+/** How long to let the page react to a visual click before the confirming screenshot */
+const VISUAL_CLICK_SETTLE_MS = 800;
+
+/** Options for chrome_screenshot */
+export interface ScreenshotOptions {
+  /** Capture the whole scrollable page instead of the viewport */
+  fullPage?: boolean;
+  /** Capture just this element: ref, CSS selector or visible text */
+  target?: string;
+  format?: "png" | "jpeg";
+  /** JPEG quality, 1-100 */
+  quality?: number;
+  /** Downscale so the image is at most this many pixels wide */
+  maxWidth?: number;
+}
+
+const DEFAULT_SCREENSHOT_MAX_WIDTH = 1280;
+const DEFAULT_JPEG_QUALITY = 80;
+/** Chrome refuses to capture textures taller than this */
+const MAX_SCREENSHOT_HEIGHT = 16384;
+
+/** An element's border box in viewport coordinates, with a `TAG "text"` label */
+interface ElementRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+}
+
+/**
+ * How chrome_type enters text: "keys" sends key events per character, "insert"
+ * uses Input.insertText in one go, "auto" inserts long or non-ASCII text.
+ */
+export type TypeMode = "auto" | "keys" | "insert";
+
+/** Typing longer than this goes through Input.insertText instead of per-key events */
+const INSERT_TEXT_THRESHOLD = 100;
+
+/** `buttons` bitmask CDP expects while a button is held */
+const MOUSE_BUTTONS: Record<string, number> = { left: 1, right: 2, middle: 4 };
+
+/** Parse an "x,y" viewport coordinate target. Returns null for anything else. */
+function parsePoint(target: string): { x: number; y: number } | null {
+  const match = target.trim().match(/^\(?\s*(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)\s*\)?$/);
+  return match ? { x: Math.round(Number(match[1])), y: Math.round(Number(match[2])) } : null;
+}
+
+const DEFAULT_EXTRACT_PAGES = 5;
+const MAX_EXTRACT_PAGES = 50;
+/** How long a clicked "next" control gets to change the rows */
+const EXTRACT_PAGE_TIMEOUT_MS = 10000;
+/** Rows shown inline in the tool result; the file gets all of them */
+const EXTRACT_PREVIEW_CHARS = 8000;
+
+/** How long a measured reload may take to fire its load event (throttled pages are slow) */
+const PERFORMANCE_LOAD_TIMEOUT_MS = 60000;
+/** Extra time after network idle for late LCP candidates and layout shifts */
+const PERFORMANCE_SETTLE_MS = 1500;
+
+export interface PerformanceOptions {
+  /** Reload before measuring (default true); false reads the current page, e.g. for INP */
+  reload?: boolean;
+  /** Network throttling profile name, see NETWORK_PROFILES */
+  network?: string;
+  /** CPU slowdown factor, 1 = none */
+  cpuSlowdown?: number;
+}
+
+/** How long the page gets to react to a click or typing before the change summary */
+const CHANGE_SETTLE_MS = 300;
+
+const DEFAULT_DOWNLOAD_TIMEOUT_MS = 30000;
+const MAX_DOWNLOAD_TIMEOUT_MS = 300000;
+
+export type StorageArea = "local" | "session";
+
+/** `name=value  (domain/path; expires 2025-01-31, HttpOnly, Secure)` */
+function formatCookie(c: CDP.Cookie): string {
+  const value = c.value.length > 80 ? `${c.value.slice(0, 80)}…` : c.value;
+  const attrs = [
+    c.session || c.expires < 0 ? "session" : `expires ${new Date(c.expires * 1000).toISOString().slice(0, 10)}`,
+    ...(c.httpOnly ? ["HttpOnly"] : []),
+    ...(c.secure ? ["Secure"] : []),
+    ...(c.sameSite ? [`SameSite=${c.sameSite}`] : []),
+  ];
+  return `${c.name}=${value}  (${c.domain}${c.path}; ${attrs.join(", ")})`;
+}
+
+/** First line of a storage exception, e.g. `QuotaExceededError: … exceeded the quota.` */
+function storageError(exceptionDetails: CDP.ExceptionDetails): string {
+  return (exceptionDetails.exception?.description || exceptionDetails.text || "the page threw").split("\n")[0];
+}
+
+/** Scroll an element into view and describe it as `TAG "text"` for tool results */
+const DESCRIBE_ELEMENT_FN = `function() {
+  this.scrollIntoView({ behavior: 'instant', block: 'center' });
+  return (this.tagName || '') + ' "' + (this.textContent || this.getAttribute('aria-label') || this.getAttribute('value') || '').trim().replace(/\\s+/g, ' ').slice(0, 80) + '"';
+}`;
+
+/** Scroll an element into view and click it via the DOM (fallback for unrendered elements) */
+const CLICK_ELEMENT_FN = `function(el) {
+  el.scrollIntoView({ behavior: 'instant', block: 'center' });
+  el.click();
+  window.blur(); // Prevent Chrome from stealing focus
+  return 'Clicked: ' + (el.tagName || '') + ' "' + (el.textContent || el.getAttribute('aria-label') || '').trim().slice(0, 80) + '"';
+}`;
+
+/** Focus an input or contenteditable and clear it, reporting which kind it is */
+const FOCUS_INPUT_FN = `function(el) {
+  el.scrollIntoView({ behavior: 'instant', block: 'center' });
+  el.focus();
+  el.click(); // Some editors need a click to activate
+
+  // Determine if it's a contenteditable or regular input
+  const isContentEditable = el.isContentEditable || el.getAttribute('contenteditable') === 'true' || el.getAttribute('role') === 'textbox';
+
+  // Clear existing content
+  if (isContentEditable) {
+    el.innerHTML = '';
+  } else if ('value' in el) {
+    el.value = '';
+  }
+
+  return (isContentEditable ? 'FOCUSED_CE: ' : 'FOCUSED: ') + el.tagName + '[' + (el.getAttribute('name') || el.getAttribute('role') || el.getAttribute('type') || String(el.className || '').split(' ')[0] || 'input') + ']';
+}`;
+
+/**
+ * How to locate a target inside one frame. `find` builds an expression that
+ * evaluates to the element or null; `fallback` runs in the main frame only
+ * after every frame came up empty.
+ */
+interface ElementFinder {
+  noun: string;
+  find: (target: string) => string;
+  fallback?: string;
+}
+
+/** Wrap a finder body (which sets `el`) with the shadow-DOM query helpers */
+function finderExpression(body: string): string {
+  return `(function() {
+    ${DEEP_QUERY_JS}
+    let el = null;
+    ${body}
+    return el || null;
+  })()`;
+}
+
+/** CSS selector (across open shadow roots) and nothing else — used for frame scopes */
+function cssFinder(selector: string): string {
+  return finderExpression(`try { el = __deepQuery(${JSON.stringify(selector)}); } catch(e) {}`);
+}
+
+/** Click targets: CSS selector, then clickables by text, then any visible element with that exact text */
+const CLICK_FINDER: ElementFinder = {
+  noun: "element",
+  find: (target) =>
+    finderExpression(`
+      // Try CSS selector
+      try {
+        el = __deepQuery(${JSON.stringify(target)});
+      } catch(e) { /* not a valid selector */ }
+
+      if (!el) {
+        // Try finding by visible text (buttons, links, etc.)
+        const candidates = __deepQueryAll('a, button, [role="button"], input[type="submit"], input[type="button"]');
+        const searchText = ${JSON.stringify(target)}.toLowerCase().trim();
+        el = candidates.find(c => {
+          const t = (c.textContent || c.getAttribute('aria-label') || c.getAttribute('value') || '').toLowerCase().trim();
+          return t === searchText || t.includes(searchText);
+        });
+      }
+
+      if (!el) {
+        // Broader search: any clickable-ish element with matching text
+        const searchText = ${JSON.stringify(target)}.toLowerCase().trim();
+        el = __deepQueryAll('*').find(candidate =>
+          (candidate.textContent || '').toLowerCase().trim() === searchText && candidate.offsetParent !== null
+        );
+      }
+    `),
+};
+
+/** Type targets: CSS selector, then inputs by placeholder/name/aria-label/type/role, then any editor on the page */
+const INPUT_FINDER: ElementFinder = {
+  noun: "input",
+  find: (target) =>
+    finderExpression(`
+      // 1. Try CSS selector first
+      try {
+        el = __deepQuery(${JSON.stringify(target)});
+      } catch(e) {}
+
+      // 2. Try by placeholder, name, aria-label, role
+      if (!el) {
+        const inputs = __deepQueryAll('input, textarea, select, [contenteditable="true"], [role="textbox"]');
+        const search = ${JSON.stringify(target)}.toLowerCase();
+        el = inputs.find(inp => {
+          const placeholder = (inp.getAttribute('placeholder') || '').toLowerCase();
+          const name = (inp.getAttribute('name') || '').toLowerCase();
+          const label = (inp.getAttribute('aria-label') || '').toLowerCase();
+          const type = (inp.getAttribute('type') || '').toLowerCase();
+          const role = (inp.getAttribute('role') || '').toLowerCase();
+          return placeholder.includes(search) || name.includes(search) || label.includes(search) || type.includes(search) || role.includes(search);
+        });
+      }
+    `),
+  // 3. Try finding any contenteditable or textbox on the page
+  fallback: finderExpression(`
+    el = __deepQuery('[contenteditable="true"]:not([aria-hidden="true"])') ||
+         __deepQuery('[role="textbox"]') ||
+         __deepQuery('.ProseMirror') ||
+         __deepQuery('.public-DraftEditor-content') ||
+         __deepQuery('.ql-editor');
+  `),
+};
+
+/** Upload targets: CSS selector, then file inputs and labels by text, then drop zones by text */
+const FILE_TARGET_FINDER: ElementFinder = {
+  noun: "file input or drop zone",
+  find: (target) =>
+    finderExpression(`
+      try {
+        el = __deepQuery(${JSON.stringify(target)});
+      } catch(e) {}
+
+      const search = ${JSON.stringify(target)}.toLowerCase().trim();
+      if (!el) {
+        // File inputs by name, id, aria-label or accept, or their <label>
+        el = __deepQueryAll('input[type="file"]').find(inp =>
+          [inp.name, inp.id, inp.getAttribute('aria-label'), inp.getAttribute('accept')]
+            .some(v => (v || '').toLowerCase().includes(search))
+        ) || __deepQueryAll('label').find(l =>
+          l.control && l.control.type === 'file' && (l.textContent || '').toLowerCase().includes(search)
+        );
+      }
+
+      if (!el) {
+        // Drop zones: the innermost visible element whose text mentions the target
+        const matches = __deepQueryAll('body *').filter(c =>
+          (c.textContent || '').toLowerCase().includes(search) && c.getClientRects().length > 0
+        );
+        el = matches.find(c => !matches.some(m => m !== c && c.contains(m))) || null;
+      }
+    `),
+  // The page's only file input, when the target didn't say which one
+  fallback: finderExpression(`
+    const inputs = __deepQueryAll('input[type="file"]');
+    if (inputs.length === 1) el = inputs[0];
+  `),
+};
+
+/** Form fields: CSS selector, then controls by label text, name or id, then by partial label */
+const FIELD_FINDER: ElementFinder = {
+  noun: "form field",
+  find: (target) =>
+    finderExpression(`
+      try {
+        el = __deepQuery(${JSON.stringify(target)});
+      } catch(e) {}
+
+      if (!el) {
+        const search = ${JSON.stringify(target)}.replace(/\\s+/g, ' ').trim().toLowerCase();
+        const norm = (s) => (s || '').replace(/\\s+/g, ' ').replace(/[*:]+$/, '').trim().toLowerCase();
+        const controls = __deepQueryAll(
+          'input:not([type="hidden"]), textarea, select, [contenteditable="true"], ' +
+          '[role="textbox"], [role="combobox"], [role="checkbox"], [role="switch"], [role="radio"]'
+        );
+        const labelsOf = (c) => {
+          const labels = [...(c.labels || [])].map((l) => l.innerText);
+          labels.push(c.getAttribute('aria-label'), c.getAttribute('placeholder'));
+          for (const id of (c.getAttribute('aria-labelledby') || '').split(/\\s+/).filter(Boolean)) {
+            labels.push(c.getRootNode().getElementById?.(id)?.innerText);
+          }
+          // A radio group is named by its fieldset legend or radiogroup label
+          if (c.type === 'radio' || c.getAttribute('role') === 'radio') {
+            labels.push(c.closest('fieldset')?.querySelector('legend')?.innerText);
+            labels.push(c.closest('[role="radiogroup"]')?.getAttribute('aria-label'));
+          }
+          return labels.map(norm).filter(Boolean);
+        };
+        el = controls.find((c) => labelsOf(c).includes(search)) ||
+          controls.find((c) => [c.getAttribute('name'), c.id].some((v) => (v || '').toLowerCase() === search)) ||
+          controls.find((c) => labelsOf(c).some((l) => l.includes(search)));
+      }
+    `),
+};
+
+/** Marks controls set by chrome_fill_form until the validation pass is done */
+const FILLED_MARKER = "data-gemini-filled";
+
+/**
+ * Set one form control to `value` the way a user would leave it — native value
+ * setter plus input/change/blur events so React, Vue and Angular see it.
+ * Returns `{ status: 'set' | 'skipped' | 'failed', detail }`.
+ */
+const FILL_FIELD_FN = `function(value) {
+  const el = this;
+  const tag = el.tagName;
+  const type = (el.getAttribute('type') || '').toLowerCase();
+  const role = (el.getAttribute('role') || '').toLowerCase();
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+  const norm = (s) => (s || '').replace(/\\s+/g, ' ').trim().toLowerCase();
+  const truthy = (v) => v === true || /^(true|yes|on|checked|1|x)$/i.test(String(v).trim());
+  const labelOf = (c) => norm([...(c.labels || [])].map((l) => l.innerText).join(' ') || c.getAttribute('aria-label') || c.innerText || c.value);
+  const isChecked = (c) => (c.tagName === 'INPUT' ? c.checked : c.getAttribute('aria-checked') === 'true');
+  const fire = (target, ...names) => names.forEach((n) => target.dispatchEvent(new Event(n, { bubbles: true })));
+  const setNative = (target, v) => {
+    const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(target), 'value')?.set;
+    if (setter) setter.call(target, v); else target.value = v;
+  };
+
+  const fill = () => {
+    el.scrollIntoView({ behavior: 'instant', block: 'center' });
+    if (el.disabled || el.getAttribute('aria-disabled') === 'true') return { status: 'skipped', detail: 'disabled' };
+    if (el.readOnly) return { status: 'skipped', detail: 'read-only' };
+    if (type === 'file') return { status: 'skipped', detail: 'file input — use chrome_upload_file' };
+
+    if (tag === 'SELECT') {
+      const options = [...el.options];
+      const wanted = (Array.isArray(value) ? value : el.multiple ? text.split(',') : [text]).map(norm);
+      const pick = (w) => options.find((o) => norm(o.text) === w || norm(o.value) === w) || options.find((o) => norm(o.text).includes(w));
+      const picked = wanted.map(pick);
+      const missing = wanted.filter((w, i) => !picked[i]);
+      if (missing.length > 0) {
+        return { status: 'failed', detail: 'no option "' + missing.join('", "') + '" — options: ' + options.slice(0, 20).map((o) => o.text.trim()).join(', ') };
+      }
+      el.focus();
+      if (el.multiple) options.forEach((o) => { o.selected = picked.includes(o); });
+      else setNative(el, picked[0].value);
+      fire(el, 'input', 'change');
+      el.blur();
+      return { status: 'set', detail: picked.map((o) => o.text.trim()).join(', ') };
+    }
+
+    if (type === 'checkbox' || role === 'checkbox' || role === 'switch') {
+      const want = truthy(value);
+      // click() toggles and fires the events frameworks listen for
+      if (isChecked(el) !== want) el.click();
+      if (isChecked(el) !== want) return { status: 'failed', detail: 'clicking did not ' + (want ? 'check' : 'uncheck') + ' it' };
+      return { status: 'set', detail: want ? 'checked' : 'unchecked' };
+    }
+
+    if (type === 'radio' || role === 'radio') {
+      const wanted = norm(text);
+      let option = el;
+      if (!(value === true || wanted === 'true' || wanted === labelOf(el))) {
+        const group = type === 'radio'
+          ? [...(el.form || el.getRootNode()).querySelectorAll('input[type="radio"]')].filter((r) => r.name === el.name)
+          : [...(el.closest('[role="radiogroup"]') || el.parentElement).querySelectorAll('[role="radio"]')];
+        option = group.find((r) => labelOf(r) === wanted || norm(r.value) === wanted) || group.find((r) => labelOf(r).includes(wanted));
+        if (!option) return { status: 'failed', detail: 'no option "' + text + '" — options: ' + group.map(labelOf).join(', ') };
+      }
+      if (option.disabled) return { status: 'skipped', detail: 'option "' + text + '" is disabled' };
+      option.click();
+      if (!isChecked(option)) return { status: 'failed', detail: 'clicking did not select "' + text + '"' };
+      return { status: 'set', detail: labelOf(option) || text };
+    }
+
+    if (el.isContentEditable) {
+      el.focus();
+      document.getSelection().selectAllChildren(el);
+      if (!document.execCommand('insertText', false, text)) {
+        el.textContent = text;
+        fire(el, 'input');
+      }
+      el.blur();
+      return { status: 'set', detail: JSON.stringify(text.slice(0, 80)) };
+    }
+
+    if (!('value' in el)) {
+      return { status: 'failed', detail: 'not a native control — click it and pick the option instead' };
+    }
+
+    // Native date inputs only take ISO values; accept "March 3, 2025", "2025/03/03", …
+    let v = text;
+    if ((type === 'date' || type === 'datetime-local' || type === 'month') && !/^\\d{4}-\\d{2}/.test(v)) {
+      const d = new Date(v);
+      if (!isNaN(d.getTime())) {
+        const pad = (n) => String(n).padStart(2, '0');
+        const day = d.getFullYear() + '-' + pad(d.getMonth() + 1) + '-' + pad(d.getDate());
+        v = type === 'month' ? day.slice(0, 7) : type === 'date' ? day : day + 'T' + pad(d.getHours()) + ':' + pad(d.getMinutes());
+      }
+    }
+
+    el.focus();
+    setNative(el, v);
+    fire(el, 'input', 'change');
+    el.blur();
+
+    const strict = ['date', 'datetime-local', 'month', 'week', 'time', 'number', 'range', 'color'];
+    if (strict.includes(type) && el.value !== v) {
+      return { status: 'failed', detail: 'value "' + text + '" not accepted by the ' + type + ' input' };
+    }
+    const shown = type === 'password' ? '••••' : JSON.stringify(el.value.slice(0, 80));
+    return { status: 'set', detail: shown + (el.value !== v && type !== 'password' ? ' (reformatted by the page)' : '') };
+  };
+
+  const result = fill();
+  if (result.status === 'set') el.setAttribute('${FILLED_MARKER}', '');
+  return result;
+}`;
+
+/** Validation message of a filled control, or null if it's valid */
+const FIELD_VALIDITY_FN = `function() {
+  if (!this.matches(':invalid') && this.getAttribute('aria-invalid') !== 'true') return null;
+  // Frameworks put their own error text in aria-errormessage / aria-describedby
+  const ids = (this.getAttribute('aria-errormessage') || this.getAttribute('aria-describedby') || '').split(/\\s+/).filter(Boolean);
+  const described = ids.map((id) => this.getRootNode().getElementById?.(id)?.innerText?.trim()).filter(Boolean).join(' ');
+  return this.validationMessage || described || 'invalid';
+}`;
+
+/**
+ * Other still-invalid controls of the form a filled control belongs to
+ * (typically required fields nobody filled), skipping the marked ones.
+ */
+const FORM_INVALID_FN = `function() {
+  const form = this.form || this.closest('form');
+  const out = [];
+  const groups = new Set();
+  if (form) {
+    for (const c of form.querySelectorAll('input, select, textarea')) {
+      if (c.type === 'hidden' || c.hasAttribute('${FILLED_MARKER}') || !c.matches(':invalid')) continue;
+      if (c.type === 'radio') {
+        if (groups.has(c.name)) continue;
+        groups.add(c.name);
+      }
+      const label = ([...(c.labels || [])].map((l) => l.innerText).join(' ') || c.getAttribute('aria-label') ||
+        c.getAttribute('placeholder') || c.name || c.id || c.type).replace(/\\s+/g, ' ').trim();
+      out.push(label + ' (' + c.validationMessage + ')');
+    }
+  }
+  return out;
+}`;
+
+/**
+ * The <input type=file> behind an upload target: the element itself, the
+ * control of a <label>, or the single file input inside it or a close
+ * ancestor (drop zones often wrap a hidden input). Null for pure drop zones.
+ */
+const FILE_INPUT_FN = `function() {
+  const isFile = (n) => n && n.tagName === 'INPUT' && n.type === 'file';
+  if (isFile(this)) return this;
+  if (this.tagName === 'LABEL' && isFile(this.control)) return this.control;
+  let scope = this;
+  for (let depth = 0; scope && depth < 4; depth++, scope = scope.parentElement) {
+    const inputs = scope.querySelectorAll('input[type="file"]');
+    if (inputs.length === 1) return inputs[0];
+    if (inputs.length > 1) return null;
+  }
+  return null;
+}`;
+
 export class ChromeClient {
   private client: CDP.Client | null = null;
   private currentTab: TabInfo | null = null;
+  /** Chrome reported the attached target destroyed — its id is no use for reconnecting */
+  private currentTabDestroyed = false;
+  private refs = new Map<number, ElementRef>();
+  /** Page targets seen since attaching — used to spot tabs/popups opened by actions */
+  private knownTargets = new Set<string>();
+  /** Tabs opened since the last tool result, keyed by target id */
+  private openedTabs = new Map<string, TabInfo>();
+  /** Messages to append to the next tool result */
+  private notices: string[] = [];
+  /** Recordings per tab id — survive switching away and back */
+  private tabState = new Map<string, TabState>();
+  /** Child frames (same-process and out-of-process) of the attached tab */
+  private frames = new FrameManager();
+  /** Device/environment overrides, re-applied on every attach */
+  private emulation: EmulationState = {};
+  /** Chrome started by launchChrome(), killed on /exit */
+  private launched: (ResolvedLaunch & { process: ChildProcess }) | null = null;
+  /** Auth state from /auth load, injected into every attached tab */
+  private authState: AuthState | null = null;
+  /** Storage-injection script registered on the current client */
+  private authScript: string | null = null;
+  /** JavaScript dialogs of the attached tab, handled per config.dialogPolicy */
+  private dialogs = new DialogManager((notice) => this.notices.push(notice));
+  /** Block/fail/mock rules for the attached tab's requests, kept across attaches */
+  private interceptor = new Interceptor();
+  /** Downloads saved into the working directory, kept across attaches */
+  private downloads = new DownloadTracker((notice) => this.notices.push(notice));
+  /** Screencast recording (/record), follows the agent across tabs */
+  private recorder = new ScreenRecorder();
 
-  /** Launch Chrome with remote debugging, using the user's default profile */
-  async launchChrome(): Promise<string> {
+  /**
+   * Launch Chrome with remote debugging. Headless mode, profile, window size,
+   * proxy and extra flags come from `options`, falling back to config.
+   */
+  async launchChrome(options: LaunchOptions = {}): Promise<string> {
     // Check if Chrome is already running with debugging
     try {
       const tabs = await CDP.List({ host: config.cdpHost, port: config.cdpPort });
       if (tabs.length > 0) {
-        return `Chrome is already running with ${tabs.filter((t: any) => t.type === "page").length} tab(s).`;
+        const note = Object.keys(options).length > 0 ? " Launch options were not applied — close it first to relaunch." : "";
+        return `Chrome is already running with ${tabs.filter((t: any) => t.type === "page").length} tab(s).${note}`;
       }
     } catch {
       // Not running — launch it
     }
 
-    const chromePaths = [
-      "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
-      "/usr/bin/google-chrome",
-      "/usr/bin/google-chrome-stable",
-      "/usr/bin/chromium-browser",
-      "/usr/bin/chromium",
-    ];
-
-    let chromePath = "";
-    for (const p of chromePaths) {
-      try {
-        const { existsSync } = await import("fs");
-        if (existsSync(p)) {
-          chromePath = p;
-          break;
-        }
-      } catch {}
-    }
-
+    const chromePath = findChrome();
     if (!chromePath) {
-      return "ERROR: Could not find Chrome. Please launch it manually with --remote-debugging-port=" + config.cdpPort;
+      return "ERROR: Could not find Chrome. Set CHROME_PATH or launch it manually with --remote-debugging-port=" + config.cdpPort;
     }
 
+    const launch = resolveLaunch(options);
+
     // Spawn detached with stdio ignored so it doesn't pollute the terminal
-    const child = spawn(chromePath, [
-      `--remote-debugging-port=${config.cdpPort}`,
-    ], {
+    const child = spawn(chromePath, launch.args, {
       detached: true,
       stdio: "ignore",
     });
     child.unref();
+    this.launched = { process: child, ...launch };
+
+    const mode = [
+      launch.headless ? "headless" : "",
+      launch.userDataDir ? `${launch.temporary ? "temporary" : "profile"} ${launch.userDataDir}` : "",
+    ].filter(Boolean).join(", ");
 
     // Wait for Chrome to be ready
     for (let i = 0; i < 30; i++) {
       await new Promise((r) => setTimeout(r, 500));
+      if (child.exitCode !== null) {
+        this.killLaunchedChrome();
+        return `ERROR: Chrome exited during startup (code ${child.exitCode}). Check the flags: ${launch.args.join(" ")}`;
+      }
       try {
         const tabs = await CDP.List({ host: config.cdpHost, port: config.cdpPort });
         if (tabs.length > 0) {
-          return `Chrome launched with ${tabs.filter((t: any) => t.type === "page").length} tab(s) ready.`;
+          return `Chrome launched${mode ? ` (${mode})` : ""} with ${tabs.filter((t: any) => t.type === "page").length} tab(s) ready.`;
         }
       } catch {
         // Not ready yet
@@ -75,6 +765,41 @@ export class ChromeClient {
     return "Chrome launched but could not verify connection. Try /tabs to check.";
   }
 
+  /**
+   * Kill the Chrome process started by launchChrome() and delete its temporary
+   * profile. Synchronous so it can run on the way out of the process.
+   * Returns false if we didn't launch Chrome.
+   */
+  killLaunchedChrome(): boolean {
+    const launched = this.launched;
+    if (!launched) return false;
+    this.launched = null;
+    if (launched.process.exitCode === null && launched.process.pid) {
+      try {
+        // Detached: kill the whole process group (renderers, GPU process, …)
+        process.kill(-launched.process.pid, "SIGTERM");
+      } catch {
+        launched.process.kill("SIGTERM");
+      }
+    }
+    if (launched.temporary && launched.userDataDir) {
+      try {
+        rmSync(launched.userDataDir, { recursive: true, force: true, maxRetries: 5, retryDelay: 200 });
+      } catch {
+        // Chrome may still hold files open — it's in the OS temp dir anyway
+      }
+    }
+    return true;
+  }
+
+  /** Describe the Chrome process we launched, for /status */
+  launchedChromeInfo(): string | null {
+    if (!this.launched) return null;
+    const { process: child, headless, userDataDir, temporary } = this.launched;
+    const profile = userDataDir ? `${temporary ? "temp profile" : "profile"} ${userDataDir}` : "default profile";
+    return `pid ${child.pid}${headless ? ", headless" : ""}, ${profile}`;
+  }
+
   /** List all available tabs from the Chrome instance */
   async listTabs(): Promise<TabInfo[]> {
     try {
@@ -128,14 +853,7 @@ export class ChromeClient {
       port: config.cdpPort,
       target: tab.id,
     });
-
-    // Enable required domains
-    await this.client.Page.enable();
-    await this.client.Runtime.enable();
-    await this.client.DOM.enable();
-
-    // Auto-dismiss "Leave site?" / beforeunload dialogs
-    this.setupDialogHandler(this.client);
+    await this.setupClient(this.client, tab);
 
     // Prevent Chrome from stealing focus when we attach
     try {
@@ -157,6 +875,10 @@ export class ChromeClient {
       this.client = null;
       this.currentTab = null;
     }
+    this.refs.clear();
+    this.knownTargets.clear();
+    this.openedTabs.clear();
+    this.notices = [];
   }
 
   /** Check if we're connected to a tab */
@@ -169,19 +891,217 @@ export class ChromeClient {
     return this.currentTab;
   }
 
-  /** Auto-dismiss "Leave site?" / beforeunload dialogs */
-  private setupDialogHandler(client: CDP.Client): void {
-    client.Page.javascriptDialogOpening(({ type }: { type: string }) => {
-      // Auto-accept beforeunload ("Leave site?") and alert/confirm dialogs
-      client.Page.handleJavaScriptDialog({ accept: true }).catch(() => {
-        // Ignore errors if dialog already dismissed
+  /** Enable the domains we rely on and subscribe to page events */
+  private async setupClient(client: CDP.Client, tab: TabInfo): Promise<void> {
+    this.currentTabDestroyed = false;
+
+    // Subscribe before enabling domains so no early events are missed
+    const state = this.stateFor(tab.id);
+    state.network.bind(client);
+    state.console.bind(client);
+    this.frames.watchContexts(client);
+
+    await client.Page.enable();
+    await client.Runtime.enable();
+    await client.DOM.enable();
+    await client.Network.enable();
+    await client.Log.enable();
+
+    // Enabling Runtime/Log replays old messages — only errors after this point are "new"
+    state.console.markReported();
+
+    // Emulation overrides are per connection — re-apply them
+    if (describeEmulation(this.emulation) !== "none") {
+      await applyEmulation(client, this.emulation).catch(() => {});
+    }
+
+    // Intercept rules must be active before the page issues more requests
+    await this.interceptor.bind(client).catch(() => {});
+
+    // Downloads go to the working directory instead of wherever Chrome decides
+    await this.downloads.bind(client).catch(() => {});
+
+    // An active recording continues in the newly attached tab
+    await this.recorder.bind(client).catch(() => {});
+
+    // Restore a loaded auth state before the model touches the page
+    this.authScript = null;
+    if (this.authState) {
+      await this.injectAuth(client, this.authState).catch(() => {});
+    }
+
+    // Accept, dismiss, ask about or hold dialogs per the configured policy
+    this.dialogs.bind(client);
+
+    // Snapshot refs point at DOM nodes of the old document — drop them on navigation
+    client.Page.frameNavigated(({ frame }) => {
+      if (!frame.parentId) this.refs.clear();
+    });
+
+    // Auto-attach to out-of-process iframes so their content is reachable
+    await this.frames.bind(client);
+
+    await this.setupTargetTracking(client);
+  }
+
+  /**
+   * Watch for new page targets so tabs and popups opened by an action
+   * (window.open, target=_blank) can be reported in the next tool result.
+   */
+  private async setupTargetTracking(client: CDP.Client): Promise<void> {
+    // Targets reported while discovery is being switched on already existed
+    let initialSync = true;
+    client.Target.targetCreated(({ targetInfo }) => {
+      if (targetInfo.type !== "page") return;
+      const known = this.knownTargets.has(targetInfo.targetId);
+      this.knownTargets.add(targetInfo.targetId);
+      if (initialSync || known || targetInfo.targetId === this.currentTab?.id) return;
+      this.openedTabs.set(targetInfo.targetId, {
+        id: targetInfo.targetId,
+        title: targetInfo.title || "(untitled)",
+        url: targetInfo.url,
       });
     });
+    // Popups start as about:blank and get their real URL a moment later
+    client.Target.targetInfoChanged(({ targetInfo }) => {
+      // Keep the attached tab's URL current — a reconnect looks for it by URL if the id is gone
+      if (this.currentTab && targetInfo.targetId === this.currentTab.id) {
+        this.currentTab.title = targetInfo.title || this.currentTab.title;
+        this.currentTab.url = targetInfo.url || this.currentTab.url;
+      }
+      const opened = this.openedTabs.get(targetInfo.targetId);
+      if (opened) {
+        opened.title = targetInfo.title || opened.title;
+        opened.url = targetInfo.url;
+      }
+    });
+    client.Target.targetDestroyed(({ targetId }) => {
+      if (targetId === this.currentTab?.id) this.currentTabDestroyed = true;
+      this.knownTargets.delete(targetId);
+      this.openedTabs.delete(targetId);
+    });
+
+    try {
+      await client.Target.setDiscoverTargets({ discover: true });
+    } catch {
+      // Older Chrome builds may refuse discovery on a page session — tracking is best-effort
+    }
+    initialSync = false;
+  }
+
+  /**
+   * Drain messages that should ride along with the next tool result
+   * (new tabs/popups, page errors). Never throws.
+   */
+  async takeNotices(): Promise<string[]> {
+    const notices = this.notices;
+    this.notices = [];
+
+    if (this.currentTab) {
+      const errors = this.stateFor(this.currentTab.id).console.takeNewErrors();
+      if (errors.length > 0) {
+        const shown = errors.slice(0, 3).map((e) => `  ${formatConsoleEntry(e).slice(0, 200)}`);
+        if (errors.length > 3) shown.push(`  … and ${errors.length - 3} more`);
+        notices.push(
+          `${errors.length} new page error(s) (see chrome_console_logs):\n${shown.join("\n")}`
+        );
+      }
+    }
+
+    if (this.openedTabs.size > 0) {
+      let tabs: TabInfo[] = [];
+      try {
+        tabs = await this.listTabs();
+      } catch {
+        // Fall back to ids only
+      }
+      for (const opened of this.openedTabs.values()) {
+        const index = tabs.findIndex((t) => t.id === opened.id);
+        const where = index >= 0 ? `tab [${index}]` : `tab id ${opened.id}`;
+        notices.push(
+          `New tab opened: ${where} "${opened.title}" — ${opened.url}. ` +
+            `Still attached to the current tab; call chrome_switch_tab to work in the new one.`
+        );
+      }
+      this.openedTabs.clear();
+    }
+
+    return notices;
+  }
+
+  /** Open a new tab (optionally at a URL) and attach to it */
+  async newTab(url?: string): Promise<string> {
+    if (url && !url.match(/^[a-z]+:/i)) {
+      url = "https://" + url;
+    }
+    const target = await CDP.New({
+      host: config.cdpHost,
+      port: config.cdpPort,
+      url: url || "about:blank",
+    });
+    const msg = await this.attach(target.id);
+    return `Opened new tab. ${msg}`;
+  }
+
+  /** Close a tab by index (default: the attached tab) */
+  async closeTab(tabIndex?: number): Promise<string> {
+    const tabs = await this.listTabs();
+    let tab: TabInfo | undefined;
+    if (tabIndex === undefined) {
+      tab = this.currentTab ? tabs.find((t) => t.id === this.currentTab!.id) : undefined;
+      if (!tab) return "ERROR: Not attached to a tab. Pass tabIndex to choose which tab to close.";
+    } else {
+      tab = tabs[tabIndex];
+      if (!tab) return `ERROR: No tab at index ${tabIndex}. There are ${tabs.length} tab(s).`;
+    }
+
+    const wasCurrent = tab.id === this.currentTab?.id;
+    if (wasCurrent) await this.detach();
+    await CDP.Close({ host: config.cdpHost, port: config.cdpPort, id: tab.id });
+
+    let msg = `Closed tab "${tab.title}" (${tab.url}).`;
+    if (wasCurrent) {
+      msg += " That was the attached tab — call chrome_list_tabs and chrome_switch_tab to continue.";
+    }
+    return msg;
+  }
+
+  /** Switch to another tab by index or target id */
+  async switchTab(tabIdOrIndex: string | number): Promise<string> {
+    const msg = await this.attach(tabIdOrIndex);
+    return `Switched tabs. ${msg}`;
+  }
+
+  /** Auto-dismiss "Leave site?" / beforeunload dialogs */
+  /** Set how dialogs with the "ask" policy reach the user */
+  setDialogPrompter(prompter: DialogPrompter): void {
+    this.dialogs.setPrompter(prompter);
+  }
+
+  /** The dialog left open for the model, if any */
+  openDialog(): DialogInfo | null {
+    return this.dialogs.open();
+  }
+
+  /** Accept or dismiss the open dialog, optionally answering a prompt() */
+  async handleDialog(accept: boolean, promptText?: string): Promise<string> {
+    // No liveness probe: the renderer doesn't answer Runtime.evaluate while a dialog is open
+    if (!this.client) {
+      throw new Error("Not connected to any Chrome tab. Use chrome_list_tabs and chrome_attach first.");
+    }
+    return this.dialogs.handle(accept, promptText);
+  }
+
+  /** Run a browser action, returning early if it opens a dialog the model must handle */
+  async untilDialog(work: Promise<string>): Promise<string> {
+    return this.dialogs.untilDecision(work);
   }
 
   /**
-   * Ensure we have a live CDP connection. If the WebSocket died
-   * (e.g. after a navigation), automatically reconnect to the same tab.
+   * Ensure we have a live CDP connection. If the WebSocket died (e.g. after a
+   * navigation), reconnect to the same tab — or, if that target is gone, to the
+   * one tab showing the same URL. Anything else is an error: acting in an
+   * arbitrary tab is worse than stopping.
    */
   private async ensureConnected(): Promise<CDP.Client> {
     if (!this.client) {
@@ -190,6 +1110,10 @@ export class ChromeClient {
       );
     }
 
+    // A page blocked by a dialog never answers the probe below — and the
+    // dialog event itself proves the connection is alive
+    if (this.dialogs.open()) return this.client;
+
     // Test if the connection is still alive by checking the WebSocket
     try {
       await this.client.Runtime.evaluate({ expression: "1" });
@@ -197,41 +1121,46 @@ export class ChromeClient {
     } catch {
       // Connection died — try to reconnect to the same tab
       if (this.currentTab) {
-        const tabId = this.currentTab.id;
+        const lost = this.currentTab;
         console.log(
           "\x1b[90m  (reconnecting to tab...)\x1b[0m"
         );
+        let tab: TabInfo | string;
         try {
-          // Look up the tab again — its ID may have changed after navigation
-          const tabs = await this.listTabs();
-          // Try to find the same tab by ID first
-          let tab = tabs.find((t) => t.id === tabId);
-          // If not found by ID, find by URL prefix or just use the first tab
-          if (!tab && tabs.length > 0) {
-            tab = tabs[0];
-          }
-          if (!tab) {
-            throw new Error("Tab no longer exists");
+          tab = this.findReconnectTarget(lost, await this.listTabs());
+          if (typeof tab === "string") throw new Error(tab);
+
+          if (tab.id !== lost.id) {
+            // Same page under a new target — carry its recordings over
+            const state = this.tabState.get(lost.id);
+            if (state && !this.tabState.has(tab.id)) {
+              this.tabState.set(tab.id, state);
+              this.tabState.delete(lost.id);
+            }
           }
-
           this.client = await CDP({
             host: config.cdpHost,
             port: config.cdpPort,
             target: tab.id,
           });
-          await this.client.Page.enable();
-          await this.client.Runtime.enable();
-          await this.client.DOM.enable();
-          this.setupDialogHandler(this.client);
-          this.currentTab = tab;
-          return this.client;
+          await this.setupClient(this.client, tab);
         } catch (reconnectErr: any) {
           this.client = null;
           this.currentTab = null;
           throw new Error(
-            `Lost connection to Chrome tab and could not reconnect: ${reconnectErr.message}`
+            `Lost connection to tab "${lost.title}" (${lost.url}) and did not reconnect: ${reconnectErr.message}. ` +
+              `Use chrome_list_tabs and chrome_switch_tab to choose a tab.`
+          );
+        }
+
+        if (tab.id !== lost.id) {
+          this.notices.push(
+            `The attached tab was replaced; reconnected to the tab showing the same URL (${tab.url}).`
           );
         }
+        this.refs.clear();
+        this.currentTab = tab;
+        return this.client;
       }
       throw new Error(
         "Lost connection to Chrome tab. Use /tabs and /attach to reconnect."
@@ -239,304 +1168,1737 @@ export class ChromeClient {
     }
   }
 
-  /** Navigate the current tab to a URL */
-  async navigate(url: string): Promise<string> {
-    const client = await this.ensureConnected();
-    // Add https:// if no protocol specified
-    if (!url.match(/^https?:\/\//)) {
-      url = "https://" + url;
-    }
-    await client.Page.navigate({ url });
-    // Wait for load with a timeout so we don't hang forever
-    try {
-      await Promise.race([
-        client.Page.loadEventFired(),
-        new Promise((_, reject) =>
-          setTimeout(() => reject(new Error("timeout")), 15000)
-        ),
-      ]);
-    } catch {
-      // Timeout or error is OK, page might be slow — we proceed anyway
+  /**
+   * The tab to reconnect to after losing `lost`: the same target if it still
+   * exists, else the only tab showing the same URL. Returns the reason as a
+   * string when there is no unambiguous match — never a guess.
+   */
+  private findReconnectTarget(lost: TabInfo, tabs: TabInfo[]): TabInfo | string {
+    if (!this.currentTabDestroyed) {
+      const same = tabs.find((t) => t.id === lost.id);
+      if (same) return same;
     }
-    // Update tab info and blur window to prevent focus stealing
-    const result = await client.Runtime.evaluate({
-      expression: `
-        window.blur();
-        JSON.stringify({ title: document.title, url: window.location.href })
-      `,
-    });
-    if (result.result.value) {
-      const info = JSON.parse(result.result.value);
-      this.currentTab = { ...this.currentTab!, title: info.title, url: info.url };
+    const withoutHash = (url: string) => url.split("#")[0];
+    let matches = tabs.filter((t) => t.url === lost.url);
+    if (matches.length === 0) matches = tabs.filter((t) => withoutHash(t.url) === withoutHash(lost.url));
+    if (matches.length === 1) return matches[0];
+    if (matches.length > 1) {
+      return `the tab is gone and ${matches.length} tabs show ${lost.url}, so it is unclear which to use`;
     }
-    return `Navigated to: ${url}`;
+    return `the tab ${this.currentTabDestroyed ? "was closed" : "no longer exists"} and no open tab shows ${lost.url}`;
   }
 
-  /** Get visible text content of the page */
-  async getPageText(): Promise<string> {
-    const client = await this.ensureConnected();
-    const result = await client.Runtime.evaluate({
-      expression: `
-        (function() {
-          // Get page metadata
-          const title = document.title;
-          const url = window.location.href;
-
-          // Get all visible text, skip scripts/styles
-          const walker = document.createTreeWalker(
-            document.body,
-            NodeFilter.SHOW_TEXT,
-            {
-              acceptNode: function(node) {
-                const parent = node.parentElement;
-                if (!parent) return NodeFilter.FILTER_REJECT;
-                const tag = parent.tagName;
-                if (tag === 'SCRIPT' || tag === 'STYLE' || tag === 'NOSCRIPT') {
-                  return NodeFilter.FILTER_REJECT;
-                }
-                const style = window.getComputedStyle(parent);
-                if (style.display === 'none' || style.visibility === 'hidden') {
-                  return NodeFilter.FILTER_REJECT;
-                }
-                const text = node.textContent.trim();
-                if (!text) return NodeFilter.FILTER_REJECT;
-                return NodeFilter.FILTER_ACCEPT;
-              }
-            }
-          );
+  /** Recordings for a tab, created on first use */
+  private stateFor(tabId: string): TabState {
+    let state = this.tabState.get(tabId);
+    if (!state) {
+      state = { network: new NetworkRecorder(), console: new ConsoleRecorder() };
+      this.tabState.set(tabId, state);
+    }
+    return state;
+  }
 
-          const texts = [];
-          let node;
-          while (node = walker.nextNode()) {
-            texts.push(node.textContent.trim());
-          }
+  /** The attached tab's recordings, or an error if not attached */
+  private currentState(): TabState {
+    if (!this.currentTab) {
+      throw new Error(
+        "Not connected to any Chrome tab. Use chrome_list_tabs and chrome_attach first."
+      );
+    }
+    return this.stateFor(this.currentTab.id);
+  }
 
-          // Also get interactive elements for the model to know about
-          const interactiveElements = [];
-          const buttons = document.querySelectorAll('button, [role="button"], input[type="submit"]');
-          buttons.forEach((b, i) => {
-            const text = b.textContent?.trim() || b.getAttribute('aria-label') || '';
-            if (text) interactiveElements.push('Button: ' + text);
-          });
-          const links = document.querySelectorAll('a[href]');
-          links.forEach((a, i) => {
-            if (i < 15) { // Limit links
-              const text = a.textContent?.trim() || '';
-              const href = a.getAttribute('href') || '';
-              if (text) interactiveElements.push('Link: ' + text + ' -> ' + href);
-            }
-          });
-          const inputs = document.querySelectorAll('input, textarea, select');
-          inputs.forEach((inp) => {
-            const label = inp.getAttribute('aria-label') || inp.getAttribute('placeholder') || inp.getAttribute('name') || inp.getAttribute('type') || 'input';
-            interactiveElements.push('Input: ' + label);
-          });
+  /** List console messages and exceptions for the attached tab */
+  consoleLogs(level?: ConsoleLevel, limit = 50): string {
+    const entries = this.currentState().console.list(level, limit);
+    if (entries.length === 0) {
+      return `No console messages${level ? ` at level ${level} or above` : ""}.`;
+    }
+    return entries.map((e) => formatConsoleEntry(e, true)).join("\n");
+  }
 
-          let output = '=== Page: ' + title + ' ===\\n';
-          output += 'URL: ' + url + '\\n\\n';
-          output += '--- Page Text ---\\n';
-          output += texts.join('\\n');
-          if (interactiveElements.length > 0) {
-            output += '\\n\\n--- Interactive Elements ---\\n';
-            output += interactiveElements.join('\\n');
-          }
+  /** List captured requests for the attached tab */
+  networkLog(filter: NetworkFilter = {}): string {
+    const recorder = this.currentState().network;
+    const entries = recorder.list({ ...filter, limit: filter.limit || 50 });
+    if (entries.length === 0) {
+      return `No matching requests (${recorder.totalSeen} captured since attaching).`;
+    }
+    const header = `${entries.length} request(s) shown, ${recorder.totalSeen} captured since attaching. Pass requestId N to chrome_network_log for headers and the response body.`;
+    return `${header}\n\n${entries.map(formatEntry).join("\n")}`;
+  }
 
-          // Truncate if too long (keep it reasonable for the model to save tokens)
-          if (output.length > 5000) {
-            output = output.slice(0, 5000) + '\\n\\n[... truncated, page has more content]';
-          }
+  /** Show full details and response body of one captured request */
+  async networkRequest(id: number): Promise<string> {
+    const recorder = this.currentState().network;
+    const entry = recorder.get(id);
+    if (!entry) return `ERROR: No captured request #${id}. Call chrome_network_log to list requests.`;
+
+    let output = formatEntry(entry) + "\n";
+    output += `\nRequest headers:\n${Object.entries(entry.requestHeaders).map(([k, v]) => `  ${k}: ${v}`).join("\n")}`;
+    if (entry.postData) output += `\n\nRequest body:\n${entry.postData.slice(0, 2000)}`;
+    if (entry.responseHeaders) {
+      output += `\n\nResponse headers:\n${Object.entries(entry.responseHeaders).map(([k, v]) => `  ${k}: ${v}`).join("\n")}`;
+    }
+    if (!entry.finished || entry.errorText) return output;
 
-          return output;
-        })()
-      `,
-    });
-    return result.result.value as string || "Could not extract page text.";
+    try {
+      await this.ensureConnected();
+      const { body, base64Encoded } = await recorder.body(entry);
+      if (base64Encoded) {
+        output += `\n\nResponse body: (binary, ${Buffer.from(body, "base64").length} bytes)`;
+      } else {
+        output += `\n\nResponse body:\n${body.slice(0, 10000)}`;
+        if (body.length > 10000) output += "\n\n... (body truncated at 10000 chars)";
+      }
+    } catch (err: any) {
+      output += `\n\nResponse body unavailable: ${err.message}`;
+    }
+    return output;
   }
 
-  /** Take a screenshot and save to disk. Returns { message, base64 } */
-  async screenshot(filePath: string): Promise<{ message: string; base64: string }> {
-    const client = await this.ensureConnected();
-    const { data } = await client.Page.captureScreenshot({ format: "png" });
+  /**
+   * Write the attached tab's captured traffic to a HAR file. Text bodies are
+   * included when Chrome still has them buffered.
+   */
+  async exportHar(filePath: string): Promise<string> {
+    const recorder = this.currentState().network;
+    const entries = recorder.list();
+    const bodies = new Map<number, { body: string; base64Encoded: boolean }>();
+
+    if (this.client) {
+      for (const entry of entries) {
+        if (!entry.finished || entry.errorText || entry.status === undefined) continue;
+        if (!/json|text|javascript|xml|html|css/i.test(entry.mimeType || "")) continue;
+        try {
+          bodies.set(entry.id, await recorder.body(entry));
+        } catch {
+          // Evicted from Chrome's buffer — export without a body
+        }
+      }
+    }
+
+    const har = toHar(entries, this.currentTab ?? { title: "", url: "" }, bodies);
     mkdirSync(dirname(filePath), { recursive: true });
-    writeFileSync(filePath, Buffer.from(data, "base64"));
-    return { message: `Screenshot saved to: ${filePath}`, base64: data };
+    writeFileSync(filePath, JSON.stringify(har, null, 2));
+    return `Exported ${entries.length} request(s) to ${filePath}`;
   }
 
-  /** Click an element by CSS selector or by visible text */
-  async click(selectorOrText: string): Promise<string> {
+  /**
+   * Measure page performance: reload with a cold cache (optionally throttled)
+   * while PerformanceObservers record Web Vitals and long tasks, then report
+   * findings ranked worst first with the vitals, resources and runtime
+   * metrics behind them. With `reload: false` the current page is read as
+   * is — the way to get INP after interacting with it.
+   */
+  async measurePerformance(options: PerformanceOptions = {}): Promise<string> {
     const client = await this.ensureConnected();
+    const reload = options.reload !== false;
+    let profile: NetworkProfile | null = null;
+    if (options.network) {
+      profile = findNetworkProfile(options.network);
+      if (!profile) {
+        return `ERROR: Unknown network profile "${options.network}". Use one of: ${Object.keys(NETWORK_PROFILES).join(", ")}.`;
+      }
+    }
+    const cpuRate = Math.min(Math.max(1, Math.round(options.cpuSlowdown || 1)), 20);
+    if (!reload && (profile || cpuRate > 1)) {
+      return "ERROR: Throttling only applies to a reload — drop reload=false or the throttling options.";
+    }
 
-    // Try CSS selector first
-    const clickResult = await client.Runtime.evaluate({
-      expression: `
-        (function() {
-          // Try CSS selector
-          let el = null;
-          try {
-            el = document.querySelector(${JSON.stringify(selectorOrText)});
-          } catch(e) { /* not a valid selector */ }
-
-          if (!el) {
-            // Try finding by visible text (buttons, links, etc.)
-            const candidates = [
-              ...document.querySelectorAll('a, button, [role="button"], input[type="submit"], input[type="button"]')
-            ];
-            const searchText = ${JSON.stringify(selectorOrText)}.toLowerCase().trim();
-            el = candidates.find(c => {
-              const t = (c.textContent || c.getAttribute('aria-label') || c.getAttribute('value') || '').toLowerCase().trim();
-              return t === searchText || t.includes(searchText);
-            });
-          }
+    const recorder = this.currentState().network;
+    const firstRequestId = reload ? recorder.totalSeen + 1 : 0;
+    const conditions = [reload ? "reloaded with a cold cache" : "current page, no reload"];
+    if (profile) conditions.push(`${profile.label} network`);
+    if (cpuRate > 1) conditions.push(`CPU ${cpuRate}x slower`);
 
-          if (!el) {
-            // Broader search: any clickable-ish element with matching text
-            const all = document.querySelectorAll('*');
-            const searchText = ${JSON.stringify(selectorOrText)}.toLowerCase().trim();
-            for (const candidate of all) {
-              const t = (candidate.textContent || '').toLowerCase().trim();
-              if (t === searchText && candidate.offsetParent !== null) {
-                el = candidate;
-                break;
-              }
-            }
-          }
+    await client.Performance.enable();
+    try {
+      if (reload) {
+        if (profile) {
+          await client.Network.emulateNetworkConditions({
+            offline: false,
+            latency: profile.latency,
+            downloadThroughput: (profile.downloadKbps * 1024) / 8,
+            uploadThroughput: (profile.uploadKbps * 1024) / 8,
+          });
+        }
+        if (cpuRate > 1) await client.Emulation.setCPUThrottlingRate({ rate: cpuRate });
+        const { identifier } = await client.Page.addScriptToEvaluateOnNewDocument({ source: VITALS_OBSERVER_JS });
+        try {
+          const loaded = client.Page.loadEventFired();
+          await client.Page.reload({ ignoreCache: true });
+          await Promise.race([
+            loaded,
+            new Promise((_, reject) => setTimeout(() => reject(new Error("timeout")), PERFORMANCE_LOAD_TIMEOUT_MS)),
+          ]).catch(() => conditions.push(`load event did not fire within ${PERFORMANCE_LOAD_TIMEOUT_MS / 1000}s`));
+          await this.waitFor({ networkIdle: true, timeoutMs: 15000 });
+          // LCP candidates and late layout shifts keep arriving for a moment after load
+          await new Promise((r) => setTimeout(r, PERFORMANCE_SETTLE_MS));
+        } finally {
+          await client.Page.removeScriptToEvaluateOnNewDocument({ identifier }).catch(() => {});
+        }
+      } else {
+        await client.Runtime.evaluate({ expression: VITALS_OBSERVER_JS });
+        // Buffered entries reach the observers asynchronously
+        await new Promise((r) => setTimeout(r, 200));
+      }
+
+      const { result } = await client.Runtime.evaluate({ expression: VITALS_COLLECT_JS, returnByValue: true });
+      const { metrics } = await client.Performance.getMetrics();
+      return formatPerformanceReport({
+        vitals: result.value as PageVitals,
+        metrics,
+        requests: recorder.list().filter((e) => e.id >= firstRequestId),
+        conditions: conditions.join(", "),
+      });
+    } finally {
+      // Throttling must never outlive the measurement
+      if (profile) {
+        await client.Network.emulateNetworkConditions({
+          offline: false,
+          latency: 0,
+          downloadThroughput: -1,
+          uploadThroughput: -1,
+        }).catch(() => {});
+      }
+      if (cpuRate > 1) await client.Emulation.setCPUThrottlingRate({ rate: 1 }).catch(() => {});
+      await client.Performance.disable().catch(() => {});
+    }
+  }
 
-          if (!el) return 'ERROR: Could not find element matching: ' + ${JSON.stringify(selectorOrText)};
+  /** Cookies visible to the current page, or to `urls` if given */
+  async listCookies(urls?: string[]): Promise<string> {
+    const client = await this.ensureConnected();
+    const { cookies } = await client.Network.getCookies(urls && urls.length > 0 ? { urls } : {});
+    if (cookies.length === 0) return "No cookies.";
+    return `${cookies.length} cookie(s):\n${cookies.map(formatCookie).join("\n")}`;
+  }
 
-          // Scroll into view and click
-          el.scrollIntoView({ behavior: 'instant', block: 'center' });
-          el.click();
-          window.blur(); // Prevent Chrome from stealing focus
-          return 'Clicked: ' + (el.tagName || '') + ' "' + (el.textContent || '').trim().slice(0, 80) + '"';
-        })()
-      `,
+  /** Set a cookie, scoped to the current page's URL unless a domain or URL is given */
+  async setCookie(cookie: CDP.CookieParam): Promise<string> {
+    const client = await this.ensureConnected();
+    const params = { ...cookie };
+    if (!params.url && !params.domain) params.url = await this.currentUrl(client);
+    const { success } = await client.Network.setCookie(params);
+    return success
+      ? `Set cookie ${cookie.name} for ${params.domain || new URL(params.url!).host}`
+      : `ERROR: Chrome rejected cookie ${cookie.name} (check domain, secure and sameSite).`;
+  }
+
+  /** Delete one cookie by name, or every cookie the current page can see */
+  async deleteCookies(name?: string): Promise<string> {
+    const client = await this.ensureConnected();
+    const { cookies } = await client.Network.getCookies();
+    const doomed = name ? cookies.filter((c) => c.name === name) : cookies;
+    if (doomed.length === 0) return name ? `ERROR: No cookie named ${name}.` : "No cookies to delete.";
+    for (const c of doomed) {
+      await client.Network.deleteCookies({ name: c.name, domain: c.domain, path: c.path });
+    }
+    return `Deleted ${doomed.length} cookie(s): ${doomed.map((c) => c.name).join(", ")}`;
+  }
+
+  /** Read all of localStorage/sessionStorage for the current origin, or one key */
+  async readStorage(area: StorageArea, key?: string): Promise<string> {
+    const client = await this.ensureConnected();
+    const items = await this.storageItems(client, area);
+    if (key !== undefined) {
+      return key in items ? `${key}=${items[key]}` : `ERROR: ${area}Storage has no key "${key}".`;
+    }
+    const keys = Object.keys(items);
+    if (keys.length === 0) return `${area}Storage is empty.`;
+    const lines = keys.map((k) => {
+      const value = items[k];
+      return `${k}=${value.length > 200 ? `${value.slice(0, 200)}… (${value.length} chars)` : value}`;
     });
-    return clickResult.result.value as string || "Click failed.";
+    return `${keys.length} ${area}Storage item(s):\n${lines.join("\n")}`;
   }
 
-  /** Focus an input/textarea/contenteditable and type text */
-  async type(selectorOrText: string, text: string): Promise<string> {
+  /** Set a localStorage/sessionStorage key for the current origin */
+  async writeStorage(area: StorageArea, key: string, value: string): Promise<string> {
     const client = await this.ensureConnected();
+    const { exceptionDetails } = await client.Runtime.evaluate({
+      expression: `${area}Storage.setItem(${JSON.stringify(key)}, ${JSON.stringify(value)})`,
+    });
+    if (exceptionDetails) return `ERROR: Could not set ${area}Storage ${key}: ${storageError(exceptionDetails)}`;
+    return `Set ${area}Storage ${key}`;
+  }
+
+  /** Remove one key, or clear localStorage/sessionStorage for the current origin */
+  async clearStorage(area: StorageArea, key?: string): Promise<string> {
+    const client = await this.ensureConnected();
+    const { exceptionDetails } = await client.Runtime.evaluate({
+      expression: key !== undefined ? `${area}Storage.removeItem(${JSON.stringify(key)})` : `${area}Storage.clear()`,
+    });
+    if (exceptionDetails) return `ERROR: Could not change ${area}Storage: ${storageError(exceptionDetails)}`;
+    return key !== undefined ? `Removed ${area}Storage ${key}` : `Cleared ${area}Storage`;
+  }
 
-    // Find and focus the element — handles regular inputs AND contenteditable divs
-    const focusResult = await client.Runtime.evaluate({
+  private async storageItems(client: CDP.Client, area: StorageArea): Promise<Record<string, string>> {
+    const { result, exceptionDetails } = await client.Runtime.evaluate({
       expression: `
         (function() {
-          let el = null;
-
-          // 1. Try CSS selector first
-          try {
-            el = document.querySelector(${JSON.stringify(selectorOrText)});
-          } catch(e) {}
-
-          // 2. Try by placeholder, name, aria-label, role
-          if (!el) {
-            const inputs = document.querySelectorAll('input, textarea, select, [contenteditable="true"], [role="textbox"]');
-            const search = ${JSON.stringify(selectorOrText)}.toLowerCase();
-            el = [...inputs].find(inp => {
-              const placeholder = (inp.getAttribute('placeholder') || '').toLowerCase();
-              const name = (inp.getAttribute('name') || '').toLowerCase();
-              const label = (inp.getAttribute('aria-label') || '').toLowerCase();
-              const type = (inp.getAttribute('type') || '').toLowerCase();
-              const role = (inp.getAttribute('role') || '').toLowerCase();
-              return placeholder.includes(search) || name.includes(search) || label.includes(search) || type.includes(search) || role.includes(search);
-            });
+          const items = {};
+          for (let i = 0; i < ${area}Storage.length; i++) {
+            const key = ${area}Storage.key(i);
+            items[key] = ${area}Storage.getItem(key);
           }
+          return items;
+        })()
+      `,
+      returnByValue: true,
+    });
+    if (exceptionDetails) throw new Error(`${area}Storage is not accessible on this page.`);
+    return (result.value as Record<string, string>) || {};
+  }
 
-          // 3. Try finding any contenteditable or textbox on the page
-          if (!el) {
-            el = document.querySelector('[contenteditable="true"]:not([aria-hidden="true"])') ||
-                 document.querySelector('[role="textbox"]') ||
-                 document.querySelector('.ProseMirror') ||
-                 document.querySelector('.public-DraftEditor-content') ||
-                 document.querySelector('.ql-editor');
-          }
+  /** Save the current site's cookies and web storage as a named auth state */
+  async saveAuth(name: string): Promise<string> {
+    const client = await this.ensureConnected();
+    const url = await this.currentUrl(client);
+    const origin = new URL(url).origin;
+    if (!origin.startsWith("http")) throw new Error(`Can't save auth state for ${url}.`);
+
+    const { cookies } = await client.Network.getCookies();
+    const state: AuthState = {
+      name,
+      origin,
+      savedAt: new Date().toISOString(),
+      cookies,
+      localStorage: await this.storageItems(client, "local"),
+      sessionStorage: await this.storageItems(client, "session"),
+    };
+    const path = saveAuthState(state);
+    return (
+      `Saved auth state "${name}" for ${origin}: ${cookies.length} cookie(s), ` +
+      `${Object.keys(state.localStorage).length} localStorage and ` +
+      `${Object.keys(state.sessionStorage).length} sessionStorage item(s) → ${path}`
+    );
+  }
+
+  /**
+   * Load a saved auth state and keep injecting it into every tab this client
+   * attaches to. If the attached tab is on the state's origin it is reloaded.
+   */
+  async loadAuth(name: string): Promise<string> {
+    const state = loadAuthState(name);
+    this.authState = state;
+    if (!this.client) {
+      return `Loaded auth state "${name}" for ${state.origin}. It will be applied when a tab is attached.`;
+    }
+
+    const client = await this.ensureConnected();
+    await this.injectAuth(client, state);
+    const summary = `Loaded auth state "${name}" (${state.cookies.length} cookie(s)) for ${state.origin}`;
+    if (new URL(await this.currentUrl(client)).origin !== state.origin) {
+      return `${summary}. Navigate to ${state.origin} to use it.`;
+    }
+    await client.Page.reload();
+    await this.waitFor({ networkIdle: true, timeoutMs: 15000 });
+    return `${summary} and reloaded the page.`;
+  }
+
+  /** Set the auth state's cookies and register its storage for new documents */
+  private async injectAuth(client: CDP.Client, state: AuthState): Promise<void> {
+    await client.Network.setCookies({
+      cookies: state.cookies.map((c) => ({
+        name: c.name,
+        value: c.value,
+        domain: c.domain,
+        path: c.path,
+        secure: c.secure,
+        httpOnly: c.httpOnly,
+        sameSite: c.sameSite,
+        expires: c.session || c.expires < 0 ? undefined : c.expires,
+      })),
+    });
+    if (this.authScript) {
+      await client.Page.removeScriptToEvaluateOnNewDocument({ identifier: this.authScript }).catch(() => {});
+    }
+    const { identifier } = await client.Page.addScriptToEvaluateOnNewDocument({
+      source: storageInjectionScript(state),
+    });
+    this.authScript = identifier;
+  }
+
+  /**
+   * Change device/environment emulation. `changes` are merged into the current
+   * state (a `device` preset fills in metrics and UA, "" clears a field);
+   * `reset` starts from scratch. Applies immediately if attached, otherwise on the next attach.
+   */
+  async emulate(changes: EmulationState & { reset?: boolean }): Promise<string> {
+    const { reset, ...fields } = changes;
+    const next: EmulationState = reset ? {} : { ...this.emulation };
+
+    if (fields.device) {
+      const preset = findPreset(fields.device);
+      if (!preset) {
+        return `ERROR: Unknown device "${fields.device}". Presets: ${Object.keys(DEVICE_PRESETS).join(", ")}`;
+      }
+      const { label, userAgent, ...metrics } = preset;
+      Object.assign(next, metrics, { device: label, userAgent });
+    }
+    const override = <K extends keyof EmulationState>(key: K, value: EmulationState[K]) => {
+      if (key === "device" || value === undefined) return;
+      // An empty string clears that override
+      if (value === "") delete next[key];
+      else next[key] = value;
+    };
+    for (const key of Object.keys(fields) as Array<keyof EmulationState>) override(key, fields[key]);
+    // Custom metrics no longer match the preset's name
+    if (!fields.device && (fields.width || fields.height)) delete next.device;
+    if ((next.width && !next.height) || (!next.width && next.height)) {
+      return "ERROR: Emulating a viewport needs both width and height.";
+    }
 
-          if (!el) return 'ERROR: Could not find input matching: ' + ${JSON.stringify(selectorOrText)};
+    this.emulation = next;
+    if (this.client) {
+      await applyEmulation(await this.ensureConnected(), next);
+    }
+    const needsReload = fields.userAgent || fields.locale || fields.timezone || fields.device;
+    return (
+      `Emulation: ${describeEmulation(next)}` +
+      (needsReload && this.client ? "\nReload the page (chrome_navigate to the same URL) so the site sees the new UA/locale." : "")
+    );
+  }
 
-          el.scrollIntoView({ behavior: 'instant', block: 'center' });
-          el.focus();
-          el.click(); // Some editors need a click to activate
+  /** Current emulation overrides */
+  emulationState(): EmulationState {
+    return { ...this.emulation };
+  }
 
-          // Determine if it's a contenteditable or regular input
-          const isContentEditable = el.isContentEditable || el.getAttribute('contenteditable') === 'true' || el.getAttribute('role') === 'textbox';
+  /** Restore overrides from a resumed session; applied on the next attach */
+  restoreEmulation(state: EmulationState): void {
+    this.emulation = { ...state };
+  }
 
-          // Clear existing content
-          if (isContentEditable) {
-            el.innerHTML = '';
-          } else if ('value' in el) {
-            el.value = '';
-          }
+  /** Add a block/fail/mock rule. Applies immediately if attached, otherwise on the next attach. */
+  async addInterceptRule(rule: Omit<InterceptRule, "id" | "hits">): Promise<string> {
+    if (rule.status !== undefined && (rule.status < 100 || rule.status > 599)) {
+      return `ERROR: Invalid status ${rule.status} — use an HTTP status between 100 and 599.`;
+    }
+    if (rule.action === "mock" && !rule.file) {
+      return "ERROR: A mock rule needs a file to serve.";
+    }
+    if (this.client) await this.ensureConnected();
+    const added = await this.interceptor.add(rule);
+    return `Added intercept rule ${formatRule(added)}`;
+  }
 
-          return (isContentEditable ? 'FOCUSED_CE: ' : 'FOCUSED: ') + el.tagName + '[' + (el.getAttribute('name') || el.getAttribute('role') || el.getAttribute('type') || el.className.split(' ')[0] || 'input') + ']';
-        })()
+  listInterceptRules(): string {
+    const rules = this.interceptor.list();
+    if (rules.length === 0) return "No intercept rules.";
+    return `${rules.length} intercept rule(s), first match wins:\n` + rules.map(formatRule).join("\n");
+  }
+
+  /** Remove one rule by id, or all rules */
+  async clearInterceptRules(id?: number): Promise<string> {
+    if (this.client) await this.ensureConnected();
+    const removed = await this.interceptor.clear(id);
+    if (id !== undefined && removed === 0) return `ERROR: No intercept rule #${id}.`;
+    return id !== undefined ? `Removed intercept rule #${id}.` : `Removed ${removed} intercept rule(s).`;
+  }
+
+  /** Current intercept rules, for saving to the session log */
+  interceptRules(): InterceptRule[] {
+    return this.interceptor.list();
+  }
+
+  /** Restore rules from a resumed session; applied on the next attach */
+  async restoreInterceptRules(rules: InterceptRule[]): Promise<void> {
+    await this.interceptor.restore(rules);
+  }
+
+  /**
+   * Navigate the current tab to a URL. Waits for the load event (up to 15s),
+   * then for `waitFor` if given.
+   */
+  async navigate(url: string, waitFor?: WaitCondition): Promise<string> {
+    const client = await this.ensureConnected();
+    // Add https:// if no protocol specified
+    if (!url.match(/^https?:\/\//)) {
+      url = "https://" + url;
+    }
+    // Record the URL first so waitFor({ urlChanged }) compares against the page we left
+    const baselineUrl = waitFor?.urlChanged ? await this.currentUrl(client) : undefined;
+    const loaded = client.Page.loadEventFired();
+    await client.Page.navigate({ url });
+    // Wait for load with a timeout so we don't hang forever
+    let loadNote = "";
+    try {
+      await Promise.race([
+        loaded,
+        new Promise((_, reject) =>
+          setTimeout(() => reject(new Error("timeout")), 15000)
+        ),
+      ]);
+    } catch {
+      // Page might be slow — proceed, but say so instead of pretending it loaded
+      loadNote = " (load event did not fire within 15s — page may still be loading)";
+    }
+    const waitNote = hasCondition(waitFor) ? `\n${await this.waitFor(waitFor, baselineUrl)}` : "";
+    // Update tab info and blur window to prevent focus stealing
+    const result = await client.Runtime.evaluate({
+      expression: `
+        window.blur();
+        JSON.stringify({ title: document.title, url: window.location.href })
       `,
     });
+    if (result.result.value) {
+      const info = JSON.parse(result.result.value);
+      this.currentTab = { ...this.currentTab!, title: info.title, url: info.url };
+    }
+    return `Navigated to: ${url}${loadNote}${waitNote}`;
+  }
 
-    const focusMsg = focusResult.result.value as string;
-    if (focusMsg?.startsWith("ERROR:")) {
-      return focusMsg;
+  /** Current top-level URL, or "" if the page can't be queried right now */
+  private async currentUrl(client: CDP.Client): Promise<string> {
+    try {
+      const { result } = await client.Runtime.evaluate({ expression: "location.href" });
+      return (result.value as string) || "";
+    } catch {
+      return "";
     }
+  }
 
-    const isContentEditable = focusMsg?.startsWith("FOCUSED_CE:");
+  /**
+   * Poll until every part of `cond` holds or the timeout expires. Returns a
+   * success message, or an "ERROR: Timed out…" message naming what was unmet.
+   */
+  async waitFor(cond: WaitCondition, baselineUrl?: string): Promise<string> {
+    let client = await this.ensureConnected();
+    const description = describeCondition(cond);
+    if (!description) return "ERROR: No wait condition given.";
+
+    const timeout = Math.min(cond.timeoutMs || DEFAULT_WAIT_TIMEOUT_MS, MAX_WAIT_TIMEOUT_MS);
+    const start = Date.now();
+    if (cond.urlChanged && baselineUrl === undefined) {
+      baselineUrl = await this.currentUrl(client);
+    }
+    const urlRe = cond.url ? globToRegExp(cond.url) : null;
+    let idleSince: number | null = null;
+    let unmet: string[] = [];
+    let lastUrl = "";
 
-    // Type each character using Input.dispatchKeyEvent for realistic typing
-    for (const char of text) {
-      await client.Input.dispatchKeyEvent({
-        type: "keyDown",
-        text: char,
-        key: char,
-        unmodifiedText: char,
+    while (true) {
+      unmet = [];
+      try {
+        const { result } = await client.Runtime.evaluate({
+          expression: `
+            (function() {
+              const visible = (el) => {
+                if (!el.getClientRects().length) return false;
+                const style = window.getComputedStyle(el);
+                return style.visibility !== 'hidden' && style.display !== 'none';
+              };
+              const anyVisible = (sel) => [...document.querySelectorAll(sel)].some(visible);
+              const out = { url: location.href };
+              try {
+                ${cond.selector ? `out.selector = anyVisible(${JSON.stringify(cond.selector)});` : ""}
+                ${cond.selectorGone ? `out.selectorGone = !anyVisible(${JSON.stringify(cond.selectorGone)});` : ""}
+              } catch (e) {
+                out.error = e.message;
+              }
+              ${cond.text ? `out.text = (document.body?.innerText || '').toLowerCase().includes(${JSON.stringify(cond.text.toLowerCase())});` : ""}
+              return out;
+            })()
+          `,
+          returnByValue: true,
+        });
+        const state = result.value || {};
+        if (state.error) return `ERROR: Invalid selector: ${state.error}`;
+        lastUrl = state.url || lastUrl;
+        if (cond.selector && !state.selector) unmet.push(`selector "${cond.selector}" to appear`);
+        if (cond.selectorGone && !state.selectorGone) unmet.push(`selector "${cond.selectorGone}" to disappear`);
+        if (cond.text && !state.text) unmet.push(`text "${cond.text}" to appear`);
+        if (urlRe && !urlRe.test(lastUrl)) unmet.push(`URL to match "${cond.url}"`);
+        if (cond.urlChanged && lastUrl === baselineUrl) unmet.push("URL to change");
+      } catch {
+        // Mid-navigation the context can vanish — reconnect and keep polling
+        unmet.push("page to respond");
+        client = await this.ensureConnected().catch(() => client);
+      }
+
+      if (cond.networkIdle) {
+        const inflight = this.currentTab ? this.stateFor(this.currentTab.id).network.inflight() : 0;
+        if (inflight > 0) {
+          idleSince = null;
+          unmet.push(`network to go idle (${inflight} request(s) in flight)`);
+        } else {
+          idleSince ??= Date.now();
+          if (Date.now() - idleSince < NETWORK_IDLE_MS) unmet.push("network to go idle");
+        }
+      }
+
+      const elapsed = Date.now() - start;
+      if (unmet.length === 0) {
+        return `Condition met after ${elapsed}ms: ${description}`;
+      }
+      if (elapsed >= timeout) {
+        return (
+          `ERROR: Timed out after ${timeout}ms waiting for ${unmet.join(" and ")}.` +
+          (lastUrl ? ` Current URL: ${lastUrl}` : "")
+        );
+      }
+      await new Promise((r) => setTimeout(r, WAIT_POLL_MS));
+    }
+  }
+
+  /**
+   * The page as Markdown, including iframes and open shadow roots. Long pages
+   * are split into chunks read with `page`; `query` returns only the sections
+   * that mention the search words, best match first.
+   */
+  async getPageText(options: { page?: number; query?: string } = {}): Promise<string> {
+    await this.ensureConnected();
+    const main = (await this.frames.evaluate(undefined, PAGE_MARKDOWN_JS, true)).value as FrameMarkdown | undefined;
+    if (!main) return "Could not extract page text.";
+
+    let markdown = main.markdown;
+    for (const ctx of await this.frames.childFrames()) {
+      let frame: FrameMarkdown | undefined;
+      try {
+        frame = (await this.frames.evaluate(ctx, PAGE_MARKDOWN_JS, true)).value as FrameMarkdown | undefined;
+      } catch {
+        continue; // Frame detached while reading
+      }
+      if (!frame?.markdown) continue;
+      markdown += `\n\n## Frame: ${frame.url || ctx.url}\n\n${frame.markdown}`;
+    }
+
+    let output = `=== Page: ${main.title} ===\nURL: ${main.url}\n`;
+
+    if (options.query) {
+      const sections = splitSections(markdown);
+      const matches = searchSections(sections, options.query);
+      if (matches.length === 0) {
+        return output + `\nNo sections match "${options.query}" (${sections.length} section(s) on the page). Read it with page=1.`;
+      }
+      let body = "";
+      let shown = 0;
+      for (const section of matches) {
+        if (shown > 0 && body.length + section.text.length > PAGE_TEXT_CHUNK_CHARS) break;
+        body += `\n\n[Section ${section.index} of ${sections.length}]\n${section.text}`;
+        shown++;
+      }
+      return (
+        output +
+        `${matches.length} of ${sections.length} section(s) match "${options.query}"` +
+        (shown < matches.length ? `, showing the best ${shown}` : "") +
+        `:${body}`
+      );
+    }
+
+    const chunks = chunkMarkdown(markdown, PAGE_TEXT_CHUNK_CHARS);
+    const page = Math.max(1, Math.floor(options.page ?? 1));
+    if (page > chunks.length) {
+      return `ERROR: Page ${page} does not exist — the text has ${chunks.length} page(s).`;
+    }
+    if (chunks.length > 1) {
+      output +=
+        `Page ${page} of ${chunks.length}` +
+        (page < chunks.length ? ` — pass page=${page + 1} for more, or query to find a section` : "") +
+        "\n";
+    }
+    return output + `\n${chunks[page - 1] || "(no visible text)"}`;
+  }
+
+  /**
+   * Read rows from a table, list or repeated elements, following the "next"
+   * control for up to `maxPages` pages. Rows seen on an earlier page are
+   * skipped, so "Load more" buttons work too. Writes CSV/JSON to `outputPath` if given.
+   */
+  async extract(options: ExtractOptions, outputPath?: string): Promise<string> {
+    let client = await this.ensureConnected();
+    const expression = extractExpression(options.selector, options.schema);
+    const maxPages = options.next
+      ? Math.min(Math.max(1, options.maxPages ?? DEFAULT_EXTRACT_PAGES), MAX_EXTRACT_PAGES)
+      : 1;
+    const rows: ExtractedRow[] = [];
+    /** How many times each row appeared on earlier pages */
+    const seen = new Map<string, number>();
+    const visited = new Set<string>();
+    let pages = 0;
+    let stopReason = "";
+
+    while (true) {
+      const { result } = await client.Runtime.evaluate({ expression, returnByValue: true });
+      const page = result.value as { rows: ExtractedRow[]; error?: string } | undefined;
+      if (!page) return "ERROR: Could not read the page.";
+      if (page.error) {
+        if (pages === 0) return `ERROR: ${page.error}`;
+        stopReason = `page ${pages + 1}: ${page.error}`;
+        break;
+      }
+      pages++;
+      visited.add(await this.currentUrl(client));
+
+      // Skip rows repeated from earlier pages, but keep identical rows within
+      // a page (two equal line items are two rows)
+      let added = 0;
+      const onPage = new Map<string, number>();
+      for (const row of page.rows) {
+        const key = JSON.stringify(row);
+        const count = (onPage.get(key) ?? 0) + 1;
+        onPage.set(key, count);
+        if (count <= (seen.get(key) ?? 0)) continue;
+        rows.push(row);
+        added++;
+      }
+      for (const [key, count] of onPage) seen.set(key, Math.max(seen.get(key) ?? 0, count));
+      if (pages > 1 && added === 0) {
+        stopReason = "the next page had no new rows";
+        break;
+      }
+      if (!options.next) break;
+      if (pages >= maxPages) {
+        stopReason = `reached the ${maxPages}-page limit`;
+        break;
+      }
+
+      const turned = await this.turnPage(client, options, visited, JSON.stringify(page.rows));
+      if (turned) {
+        stopReason = turned;
+        break;
+      }
+      client = await this.ensureConnected();
+    }
+
+    let output = `Extracted ${rows.length} row(s) from ${pages} page(s)`;
+    if (stopReason) output += ` — stopped: ${stopReason}`;
+    if (outputPath) {
+      writeRows(outputPath, rows);
+      output += `\nWrote ${rows.length} row(s) to ${outputPath}`;
+    }
+    if (rows.length === 0) return output;
+
+    let preview = "";
+    let shown = 0;
+    for (const row of rows) {
+      const line = JSON.stringify(row);
+      if (preview.length + line.length > EXTRACT_PREVIEW_CHARS) break;
+      preview += `\n${line}`;
+      shown++;
+    }
+    output += preview;
+    if (shown < rows.length) {
+      output += `\n[... ${rows.length - shown} more row(s)${outputPath ? " in the file" : " — pass output to save them all"}]`;
+    }
+    return output;
+  }
+
+  /**
+   * Go to the next page of an extraction: navigate to the "next" link's URL,
+   * or click the control and wait for the rows to change. Returns why
+   * pagination stopped, or null if a new page is showing.
+   */
+  private async turnPage(
+    client: CDP.Client,
+    options: ExtractOptions,
+    visited: Set<string>,
+    previousRows: string
+  ): Promise<string | null> {
+    const { result } = await client.Runtime.evaluate({
+      expression: nextPageExpression(options.next || "auto"),
+      returnByValue: true,
+    });
+    const next = result.value as { found: boolean; disabled?: boolean; href?: string; error?: string } | undefined;
+    if (next?.error) return `invalid next selector: ${next.error}`;
+    if (!next?.found) return "no next link";
+    if (next.disabled) return "the next link is disabled";
+
+    if (next.href) {
+      if (visited.has(next.href)) return "the next link leads to a page already read";
+      await this.navigate(next.href, { selector: options.selector, timeoutMs: EXTRACT_PAGE_TIMEOUT_MS });
+      return null;
+    }
+
+    const clicked = await this.performClick(`[${NEXT_MARKER}]`, {});
+    if (clicked.startsWith("ERROR")) return clicked.slice("ERROR: ".length);
+
+    const expression = extractExpression(options.selector, options.schema);
+    const start = Date.now();
+    while (Date.now() - start < EXTRACT_PAGE_TIMEOUT_MS) {
+      await new Promise((r) => setTimeout(r, WAIT_POLL_MS * 3));
+      try {
+        const { result: current } = await client.Runtime.evaluate({ expression, returnByValue: true });
+        const rows = (current.value as { rows?: ExtractedRow[] } | undefined)?.rows;
+        if (rows && rows.length > 0 && JSON.stringify(rows) !== previousRows) return null;
+      } catch {
+        // Clicking navigated — reconnect and keep polling
+        client = await this.ensureConnected().catch(() => client);
+      }
+    }
+    return `the rows did not change within ${EXTRACT_PAGE_TIMEOUT_MS / 1000}s of clicking next`;
+  }
+
+  /**
+   * Build an accessibility-tree snapshot of the page. Interactive nodes get
+   * numbered refs that chrome_click / chrome_type accept as `ref=N`.
+   */
+  async snapshot(): Promise<string> {
+    const client = await this.ensureConnected();
+    const { nodes } = await client.Accessibility.getFullAXTree();
+
+    const byId = new Map(nodes.map((n) => [n.nodeId, n]));
+    const root = nodes.find((n) => !n.parentId) || nodes[0];
+    this.refs.clear();
+
+    const lines: string[] = [];
+    let size = 0;
+    let truncated = false;
+    let nextRef = 1;
+
+    const visit = (node: CDP.AXNode, depth: number, parentName: string): void => {
+      if (truncated) return;
+      const role = String(node.role?.value ?? "");
+      const name = String(node.name?.value ?? "").replace(/\s+/g, " ").trim();
+      const children = (node.childIds || [])
+        .map((id) => byId.get(id))
+        .filter((n): n is CDP.AXNode => !!n);
+
+      // Ignored and purely structural nodes: hoist their children
+      if (node.ignored || (TRANSPARENT_ROLES.has(role) && !name) || role === "RootWebArea") {
+        for (const child of children) visit(child, depth, parentName);
+        return;
+      }
+
+      // Text that just repeats the parent's accessible name is noise
+      if (role === "StaticText") {
+        if (name && !parentName.includes(name)) {
+          this.pushSnapshotLine(lines, depth, `text "${name.slice(0, 200)}"`);
+        }
+        return;
+      }
+
+      let line = "";
+      if (INTERACTIVE_ROLES.has(role) && node.backendDOMNodeId !== undefined) {
+        const ref = nextRef++;
+        this.refs.set(ref, { backendNodeId: node.backendDOMNodeId, role, name });
+        line += `[ref=${ref}] `;
+      }
+      line += role;
+      if (name) line += ` "${name.slice(0, 150)}"`;
+      const value = node.value?.value;
+      if (value !== undefined && value !== "" && value !== name) {
+        line += ` value="${String(value).slice(0, 100)}"`;
+      }
+      const state = (node.properties || [])
+        .filter((p) => STATE_PROPERTIES.includes(p.name) && p.value.value !== false && p.value.value !== "false")
+        .map((p) => (p.value.value === true || p.value.value === "true" ? p.name : `${p.name}=${p.value.value}`));
+      if (state.length > 0) line += ` (${state.join(", ")})`;
+
+      size += this.pushSnapshotLine(lines, depth, line);
+      if (size > SNAPSHOT_MAX_CHARS) {
+        truncated = true;
+        return;
+      }
+      for (const child of children) visit(child, depth + 1, name);
+    };
+
+    if (root) visit(root, 0, "");
+
+    const tab = this.currentTab;
+    let output = `=== Snapshot: ${tab?.title ?? ""} ===\n`;
+    output += `URL: ${tab?.url ?? ""}\n`;
+    output += `${this.refs.size} interactive element(s). Use ref=N with chrome_click / chrome_type.\n\n`;
+    output += lines.join("\n");
+    if (truncated) {
+      output += "\n\n[... snapshot truncated, scroll or narrow down to see more]";
+    }
+    return output;
+  }
+
+  /** Append an indented snapshot line, returning the number of chars added */
+  private pushSnapshotLine(lines: string[], depth: number, text: string): number {
+    const line = `${"  ".repeat(depth)}- ${text}`;
+    lines.push(line);
+    return line.length + 1;
+  }
+
+  /**
+   * Resolve a snapshot ref to a live remote object. Refs go stale when the
+   * page navigates or the node is removed, in which case an error is returned.
+   */
+  private async resolveRef(
+    client: CDP.Client,
+    ref: number
+  ): Promise<{ objectId: string } | { error: string }> {
+    const entry = this.refs.get(ref);
+    if (!entry) {
+      return {
+        error: `ERROR: Unknown ref=${ref}. Refs reset on navigation — call chrome_snapshot to get fresh refs.`,
+      };
+    }
+    try {
+      const { object } = await client.DOM.resolveNode({
+        backendNodeId: entry.backendNodeId,
+        objectGroup: REF_OBJECT_GROUP,
       });
-      await client.Input.dispatchKeyEvent({
-        type: "keyUp",
-        key: char,
+      if (!object.objectId) throw new Error("no object");
+      return { objectId: object.objectId };
+    } catch {
+      this.refs.delete(ref);
+      return {
+        error: `ERROR: ref=${ref} (${entry.role} "${entry.name}") is stale — the element is gone. Call chrome_snapshot again.`,
+      };
+    }
+  }
+
+  /** Release the nodes ref lookups resolved during the last tool call */
+  async releaseRefHandles(): Promise<void> {
+    // A page blocked by a dialog doesn't answer; release after the next call instead
+    if (!this.client || this.dialogs.open()) return;
+    await this.client.Runtime.releaseObjectGroup({ objectGroup: REF_OBJECT_GROUP }).catch(() => {});
+  }
+
+  /**
+   * Capture the viewport, the full page or one element and save it to disk.
+   * Images are downscaled to `maxWidth` so they stay cheap to send to the
+   * model. Returns { message, base64, mimeType }; base64 is empty on error.
+   */
+  async screenshot(
+    filePath: string,
+    options: ScreenshotOptions = {}
+  ): Promise<{ message: string; base64: string; mimeType: string }> {
+    const client = await this.ensureConnected();
+    const format = options.format ?? (options.quality !== undefined ? "jpeg" : "png");
+
+    let element: ElementRect | null = null;
+    if (options.target) {
+      const found = await this.findElement(client, options.target);
+      if ("error" in found) return { message: found.error, base64: "", mimeType: "" };
+      element = await this.elementRect(client, found);
+      if (!element) {
+        return {
+          message: `ERROR: Element matching ${options.target} is not rendered (no layout box).`,
+          base64: "",
+          mimeType: "",
+        };
+      }
+    }
+
+    // Clips are in document coordinates — read the scroll offset after scrollIntoView
+    const { cssLayoutViewport: vp, cssContentSize: content } = await client.Page.getLayoutMetrics();
+    let rect = { x: vp.pageX, y: vp.pageY, width: vp.clientWidth, height: vp.clientHeight };
+    let what = "viewport";
+    if (element) {
+      rect = { x: element.x + vp.pageX, y: element.y + vp.pageY, width: element.width, height: element.height };
+      what = element.label;
+    } else if (options.fullPage) {
+      rect = { x: 0, y: 0, width: content.width, height: Math.min(content.height, MAX_SCREENSHOT_HEIGHT) };
+      what = content.height > MAX_SCREENSHOT_HEIGHT ? "full page (cut off)" : "full page";
+    }
+
+    const maxWidth = options.maxWidth || DEFAULT_SCREENSHOT_MAX_WIDTH;
+    const scale = Math.min(1, maxWidth / rect.width);
+    const { data } = await client.Page.captureScreenshot({
+      format,
+      quality: format === "jpeg" ? Math.min(100, Math.max(1, options.quality ?? DEFAULT_JPEG_QUALITY)) : undefined,
+      clip: { ...rect, scale },
+      captureBeyondViewport: what !== "viewport",
+    });
+
+    mkdirSync(dirname(filePath), { recursive: true });
+    const bytes = Buffer.from(data, "base64");
+    writeFileSync(filePath, bytes);
+    const size = `${Math.round(rect.width * scale)}x${Math.round(rect.height * scale)}`;
+    return {
+      message: `Screenshot of ${what} (${size} ${format}, ${(bytes.length / 1024).toFixed(0)}KB) saved to: ${filePath}`,
+      base64: data,
+      mimeType: `image/${format}`,
+    };
+  }
+
+  /**
+   * Find an element by snapshot ref, CSS selector, or visible text and return
+   * a handle to it. Searches the main frame, open shadow roots and then every
+   * child frame; `iframe-selector >>> target` restricts the search to a frame.
+   */
+  private async findElement(
+    client: CDP.Client,
+    selectorOrText: string,
+    finder: ElementFinder = CLICK_FINDER
+  ): Promise<ElementHandle | { error: string }> {
+    // Snapshot ref: target the exact node
+    const ref = parseRef(selectorOrText);
+    if (ref !== null) {
+      return this.resolveRef(client, ref);
+    }
+
+    const notFound = { error: `ERROR: Could not find ${finder.noun} matching: ${selectorOrText}` };
+    const scope = splitFrameScope(selectorOrText);
+    if (scope.frames.length > 0) {
+      const ctx = await this.resolveFrameScope(scope.frames);
+      if ("error" in ctx) return ctx;
+      return (await this.findInFrame(ctx, finder.find(scope.selector))) || notFound;
+    }
+
+    const inMain = await this.findInFrame(undefined, finder.find(selectorOrText));
+    if (inMain) return inMain;
+    for (const ctx of await this.frames.childFrames()) {
+      const found = await this.findInFrame(ctx, finder.find(selectorOrText));
+      if (found) return found;
+    }
+    if (finder.fallback) {
+      const fallback = await this.findInFrame(undefined, finder.fallback);
+      if (fallback) return fallback;
+    }
+    return notFound;
+  }
+
+  /** Run a finder expression in a frame, returning a handle if it yielded a DOM node */
+  private async findInFrame(
+    ctx: FrameContext | undefined,
+    expression: string
+  ): Promise<ElementHandle | null> {
+    try {
+      const result = await this.frames.evaluate(ctx, expression, false);
+      if (result.subtype !== "node" || !result.objectId) return null;
+      return { objectId: result.objectId, sessionId: ctx?.sessionId };
+    } catch {
+      // Frame went away mid-search
+      return null;
+    }
+  }
+
+  /** Descend through `iframe >>> iframe` selectors to the innermost frame's context */
+  private async resolveFrameScope(
+    frameSelectors: string[]
+  ): Promise<FrameContext | { error: string }> {
+    const client = await this.ensureConnected();
+    let ctx: FrameContext | undefined;
+    for (const selector of frameSelectors) {
+      const owner = await this.findInFrame(ctx, cssFinder(selector));
+      if (!owner) return { error: `ERROR: Could not find frame matching: ${selector}` };
+      const { node } = await client.DOM.describeNode({ objectId: owner.objectId }, owner.sessionId);
+      if (!node.frameId) return { error: `ERROR: ${selector} is a ${node.nodeName.toLowerCase()}, not an iframe.` };
+      const next = await this.frames.contextForFrame(node.frameId, owner.sessionId);
+      if (!next) return { error: `ERROR: Frame ${selector} has no document yet.` };
+      ctx = next;
+    }
+    return ctx!;
+  }
+
+  /**
+   * Scroll an element into view and compute the center of its content box in
+   * viewport coordinates. Returns null when the element has no layout box.
+   */
+  private async elementCenter(
+    client: CDP.Client,
+    handle: ElementHandle
+  ): Promise<{ x: number; y: number; label: string } | null> {
+    const { result } = await client.Runtime.callFunctionOn(
+      {
+        objectId: handle.objectId,
+        functionDeclaration: DESCRIBE_ELEMENT_FN,
+        returnByValue: true,
+      },
+      handle.sessionId
+    );
+    const label = (result.value as string) || "element";
+    try {
+      const { model } = await client.DOM.getBoxModel({ objectId: handle.objectId }, handle.sessionId);
+      // Box models inside an out-of-process iframe are relative to that iframe
+      const offset = await this.frames.frameOffset(handle.sessionId);
+      const q = model.content;
+      return {
+        x: Math.round((q[0] + q[2] + q[4] + q[6]) / 4 + offset.x),
+        y: Math.round((q[1] + q[3] + q[5] + q[7]) / 4 + offset.y),
+        label,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Scroll an element into view and return its border box in viewport
+   * coordinates, or null when it has no layout box.
+   */
+  private async elementRect(
+    client: CDP.Client,
+    handle: ElementHandle
+  ): Promise<ElementRect | null> {
+    const { result } = await client.Runtime.callFunctionOn(
+      {
+        objectId: handle.objectId,
+        functionDeclaration: DESCRIBE_ELEMENT_FN,
+        returnByValue: true,
+      },
+      handle.sessionId
+    );
+    const label = (result.value as string) || "element";
+    try {
+      const { model } = await client.DOM.getBoxModel({ objectId: handle.objectId }, handle.sessionId);
+      const offset = await this.frames.frameOffset(handle.sessionId);
+      const xs = [model.border[0], model.border[2], model.border[4], model.border[6]];
+      const ys = [model.border[1], model.border[3], model.border[5], model.border[7]];
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      return {
+        x: x + offset.x,
+        y: y + offset.y,
+        width: Math.max(...xs) - x,
+        height: Math.max(...ys) - y,
+        label,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /** Resolve a pointer target ("x,y", ref, selector or text) to viewport coordinates */
+  private async resolvePoint(
+    client: CDP.Client,
+    target: string
+  ): Promise<{ x: number; y: number; label: string } | { error: string }> {
+    const coords = parsePoint(target);
+    if (coords) {
+      return { ...coords, label: `(${coords.x}, ${coords.y})` };
+    }
+    const found = await this.findElement(client, target);
+    if ("error" in found) return found;
+    const center = await this.elementCenter(client, found);
+    if (!center) {
+      return { error: `ERROR: Element matching ${target} is not rendered (no layout box).` };
+    }
+    return center;
+  }
+
+  /** Dispatch a full mouse click (move, press, release) at viewport coordinates */
+  private async dispatchClick(
+    client: CDP.Client,
+    x: number,
+    y: number,
+    options: PointerOptions
+  ): Promise<void> {
+    const button = options.button || "left";
+    const clickCount = options.clickCount || 1;
+    const modifiers = options.modifiers || 0;
+
+    await client.Input.dispatchMouseEvent({ type: "mouseMoved", x, y, modifiers });
+    // A double click is two press/release pairs with an increasing clickCount
+    for (let count = 1; count <= clickCount; count++) {
+      await client.Input.dispatchMouseEvent({
+        type: "mousePressed",
+        x,
+        y,
+        button,
+        buttons: MOUSE_BUTTONS[button],
+        clickCount: count,
+        modifiers,
       });
+      await client.Input.dispatchMouseEvent({
+        type: "mouseReleased",
+        x,
+        y,
+        button,
+        buttons: 0,
+        clickCount: count,
+        modifiers,
+      });
+    }
+  }
+
+  /**
+   * Click an element by snapshot ref, CSS selector, visible text, or "x,y"
+   * viewport coordinates using real mouse events at the element's center,
+   * then optionally wait for a condition (e.g. the URL to change).
+   */
+  async click(
+    selectorOrText: string,
+    options: PointerOptions = {},
+    waitFor?: WaitCondition
+  ): Promise<string> {
+    // Record the URL first so waitFor({ urlChanged }) compares against the pre-click page
+    const baselineUrl = waitFor?.urlChanged
+      ? await this.currentUrl(await this.ensureConnected())
+      : undefined;
+    return this.withChangeSummary(async () => {
+      const result = await this.performClick(selectorOrText, options);
+      if (!hasCondition(waitFor) || result.startsWith("ERROR")) return result;
+      return `${result}\n${await this.waitFor(waitFor, baselineUrl)}`;
+    }, !hasCondition(waitFor));
+  }
+
+  /**
+   * Run an action and append a one-line summary of what it changed on the
+   * page (URL, title, dialogs, toasts, landmark regions, focus), so the model
+   * rarely needs to re-read the page. `settle` gives the page a moment to
+   * react when the action didn't already wait for something.
+   */
+  private async withChangeSummary(action: () => Promise<string>, settle: boolean): Promise<string> {
+    const client = await this.ensureConnected();
+    let before: PageState | null = null;
+    try {
+      const { result } = await client.Runtime.evaluate({ expression: CHANGES_START_JS, returnByValue: true });
+      before = (result.value as PageState) ?? null;
+    } catch {
+      // No summary for this action — the action itself still runs
+    }
+
+    let after: ChangeObservation | null = null;
+    try {
+      const result = await action();
+      if (!before || result.startsWith("ERROR")) return result;
+
+      if (settle) await new Promise((r) => setTimeout(r, CHANGE_SETTLE_MS));
+      // A navigating page has no context to evaluate in for a moment
+      for (let attempt = 0; attempt < 2 && !after; attempt++) {
+        if (attempt > 0) await new Promise((r) => setTimeout(r, CHANGE_SETTLE_MS));
+        try {
+          const { result: observed, exceptionDetails } = await client.Runtime.evaluate({
+            expression: CHANGES_END_JS,
+            returnByValue: true,
+          });
+          if (!exceptionDetails) after = (observed.value as ChangeObservation) ?? null;
+        } catch {
+          // Try again once the new document exists
+        }
+      }
+      return `${result}\n${describeChanges(before, after)}`;
+    } finally {
+      // CHANGES_END_JS didn't run — don't leave the observer watching the whole document
+      if (before && !after) {
+        await client.Runtime.evaluate({ expression: CHANGES_STOP_JS }).catch(() => {});
+      }
+    }
+  }
+
+  private async performClick(selectorOrText: string, options: PointerOptions): Promise<string> {
+    const client = await this.ensureConnected();
+    const verb =
+      options.button === "right"
+        ? "Right-clicked"
+        : (options.clickCount || 1) > 1
+          ? "Double-clicked"
+          : "Clicked";
+
+    const coords = parsePoint(selectorOrText);
+    if (coords) {
+      await this.dispatchClick(client, coords.x, coords.y, options);
+      return `${verb} at (${coords.x}, ${coords.y})`;
+    }
+
+    const found = await this.findElement(client, selectorOrText);
+    if ("error" in found) return found.error;
+
+    const center = await this.elementCenter(client, found);
+    if (!center) {
+      // No layout box (e.g. a visually hidden input) — fall back to a DOM click
+      if (verb !== "Clicked") {
+        return `ERROR: Element matching ${selectorOrText} is not rendered (no layout box).`;
+      }
+      const { result } = await client.Runtime.callFunctionOn(
+        {
+          objectId: found.objectId,
+          functionDeclaration: `function() { return (${CLICK_ELEMENT_FN})(this); }`,
+          returnByValue: true,
+        },
+        found.sessionId
+      );
+      return result.value as string || "Click failed.";
+    }
+
+    await this.dispatchClick(client, center.x, center.y, options);
+    try {
+      await client.Runtime.evaluate({ expression: "window.blur();" }); // Prevent Chrome from stealing focus
+    } catch {}
+    return `${verb}: ${center.label}`;
+  }
+
+  /**
+   * Click an element described in words when the DOM can't find it (canvas
+   * UIs, obfuscated markup): screenshot the viewport, have the vision model
+   * locate it, click there with real mouse events, then screenshot again so
+   * the result can be confirmed. Screenshots are saved in `screenshotDir`.
+   */
+  async clickVisual(
+    description: string,
+    locate: ElementLocator,
+    screenshotDir: string,
+    options: PointerOptions = {}
+  ): Promise<{ message: string; after?: { base64: string; mimeType: string } }> {
+    const client = await this.ensureConnected();
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const shot = { format: "jpeg" as const, maxWidth: DEFAULT_SCREENSHOT_MAX_WIDTH };
+
+    const before = await this.screenshot(join(screenshotDir, `visual-click-${stamp}-before.jpg`), shot);
+    if (!before.base64) return { message: before.message };
+    const point = await locate({ mimeType: before.mimeType, data: before.base64 }, description);
+    if (!point) {
+      return {
+        message: `ERROR: Could not find "${description}" in the screenshot. Scroll it into view or describe it differently.`,
+      };
+    }
+
+    // The screenshot covers exactly the viewport, so fractions map straight to CSS pixels
+    const { cssLayoutViewport: vp } = await client.Page.getLayoutMetrics();
+    const x = Math.round((point.x / 1000) * vp.clientWidth);
+    const y = Math.round((point.y / 1000) * vp.clientHeight);
+    await this.dispatchClick(client, x, y, options);
+
+    await new Promise((r) => setTimeout(r, VISUAL_CLICK_SETTLE_MS));
+    const afterPath = join(screenshotDir, `visual-click-${stamp}-after.jpg`);
+    const after = await this.screenshot(afterPath, shot);
+    const outcome =
+      after.base64 === before.base64
+        ? "WARNING: the page looks unchanged — check the screenshot; the click may have missed."
+        : "The page changed — check the screenshot to confirm it did what you expected.";
+    return {
+      message: `Clicked "${description}" at (${x}, ${y}) located by vision. ${outcome}\nAfter-click screenshot: ${afterPath}`,
+      after: after.base64 ? { base64: after.base64, mimeType: after.mimeType } : undefined,
+    };
+  }
+
+  /** Double-click an element or "x,y" coordinates */
+  async doubleClick(selectorOrText: string, modifiers = 0): Promise<string> {
+    return this.click(selectorOrText, { clickCount: 2, modifiers });
+  }
+
+  /** Right-click an element or "x,y" coordinates (opens context menus) */
+  async rightClick(selectorOrText: string, modifiers = 0): Promise<string> {
+    return this.click(selectorOrText, { button: "right", modifiers });
+  }
+
+  /** Move the mouse over an element or "x,y" coordinates without clicking */
+  async hover(selectorOrText: string, modifiers = 0): Promise<string> {
+    const client = await this.ensureConnected();
+    const point = await this.resolvePoint(client, selectorOrText);
+    if ("error" in point) return point.error;
+    await client.Input.dispatchMouseEvent({ type: "mouseMoved", x: point.x, y: point.y, modifiers });
+    return `Hovered: ${point.label}`;
+  }
+
+  /**
+   * Drag from one element/point to another. Pointer-driven drags (sortable
+   * lists, canvas) see a stream of mouse moves; native HTML5 drag-and-drop is
+   * intercepted and replayed as drag events at the target.
+   */
+  async drag(source: string, target: string, modifiers = 0): Promise<string> {
+    const client = await this.ensureConnected();
+    const from = await this.resolvePoint(client, source);
+    if ("error" in from) return from.error;
+    const to = await this.resolvePoint(client, target);
+    if ("error" in to) return to.error;
+
+    let dragData: CDP.DragData | null = null;
+    await client.Input.setInterceptDrags({ enabled: true }).catch(() => {});
+    const unsubscribe = client.Input.dragIntercepted(({ data }) => {
+      dragData = data;
+    });
+
+    try {
+      await client.Input.dispatchMouseEvent({ type: "mouseMoved", x: from.x, y: from.y, modifiers });
+      await client.Input.dispatchMouseEvent({
+        type: "mousePressed",
+        x: from.x,
+        y: from.y,
+        button: "left",
+        buttons: 1,
+        clickCount: 1,
+        modifiers,
+      });
+
+      // Move in steps so drag libraries see intermediate positions
+      const steps = 10;
+      for (let i = 1; i <= steps; i++) {
+        await client.Input.dispatchMouseEvent({
+          type: "mouseMoved",
+          x: Math.round(from.x + ((to.x - from.x) * i) / steps),
+          y: Math.round(from.y + ((to.y - from.y) * i) / steps),
+          button: "left",
+          buttons: 1,
+          modifiers,
+        });
+        await new Promise((r) => setTimeout(r, 20));
+      }
+
+      if (dragData) {
+        for (const type of ["dragEnter", "dragOver", "drop"]) {
+          await client.Input.dispatchDragEvent({ type, x: to.x, y: to.y, data: dragData, modifiers });
+        }
+      }
+
+      await client.Input.dispatchMouseEvent({
+        type: "mouseReleased",
+        x: to.x,
+        y: to.y,
+        button: "left",
+        buttons: 0,
+        clickCount: 1,
+        modifiers,
+      });
+    } finally {
+      unsubscribe();
+      await client.Input.setInterceptDrags({ enabled: false }).catch(() => {});
+    }
+
+    return `Dragged ${from.label} → ${to.label}${dragData ? " (HTML5 drag-and-drop)" : ""}`;
+  }
+
+  /**
+   * Find and focus an input by ref, selector, or label, clearing its content.
+   * Returns the element with "FOCUSED: …" / "FOCUSED_CE: …", or "ERROR: …".
+   */
+  private async focusInput(
+    client: CDP.Client,
+    selectorOrText: string
+  ): Promise<{ message: string; handle?: ElementHandle }> {
+    // Handles regular inputs AND contenteditable divs, in any frame or shadow root
+    const found = await this.findElement(client, selectorOrText, INPUT_FINDER);
+    if ("error" in found) return { message: found.error };
+    const { result } = await client.Runtime.callFunctionOn(
+      {
+        objectId: found.objectId,
+        functionDeclaration: `function() { return (${FOCUS_INPUT_FN})(this); }`,
+        returnByValue: true,
+      },
+      found.sessionId
+    );
+    return { message: result.value as string, handle: found };
+  }
+
+  /** Focus an input/textarea/contenteditable and type text */
+  async type(selectorOrText: string, text: string, mode: TypeMode = "auto"): Promise<string> {
+    return this.withChangeSummary(() => this.performType(selectorOrText, text, mode), true);
+  }
+
+  private async performType(selectorOrText: string, text: string, mode: TypeMode): Promise<string> {
+    const client = await this.ensureConnected();
+    const { message: focusMsg, handle } = await this.focusInput(client, selectorOrText);
+    if (!handle || focusMsg?.startsWith("ERROR:")) {
+      return focusMsg;
+    }
+
+    const isContentEditable = focusMsg?.startsWith("FOCUSED_CE:");
+
+    // Long text and characters with no key (emoji, CJK) go in as one insertion;
+    // otherwise type each character with realistic key events
+    const insert =
+      mode === "insert" ||
+      (mode === "auto" && (text.length > INSERT_TEXT_THRESHOLD || [...text].some((c) => !keyForCharacter(c))));
+    if (insert) {
+      await client.Input.insertText({ text });
+    } else {
+      for (const char of text) {
+        const found = keyForCharacter(char);
+        if (!found) {
+          await client.Input.insertText({ text: char });
+          continue;
+        }
+        await this.dispatchChord(client, {
+          modifiers: found.shift ? MODIFIER_BITS.shift : 0,
+          key: found.key,
+          label: char,
+        });
+      }
     }
 
     // For regular inputs, also set value via JS (some frameworks need this)
     if (!isContentEditable) {
-      await client.Runtime.evaluate({
-        expression: `
-          (function() {
-            const el = document.activeElement;
-            if (el && 'value' in el) {
+      await client.Runtime.callFunctionOn(
+        {
+          objectId: handle.objectId,
+          functionDeclaration: `function(text) {
+            if ('value' in this) {
               const nativeInputValueSetter = Object.getOwnPropertyDescriptor(
-                window.HTMLInputElement.prototype, 'value'
-              )?.set || Object.getOwnPropertyDescriptor(
-                window.HTMLTextAreaElement.prototype, 'value'
+                Object.getPrototypeOf(this), 'value'
               )?.set;
               if (nativeInputValueSetter) {
-                nativeInputValueSetter.call(el, ${JSON.stringify(text)});
+                nativeInputValueSetter.call(this, text);
               } else {
-                el.value = ${JSON.stringify(text)};
+                this.value = text;
               }
-              el.dispatchEvent(new Event('input', { bubbles: true }));
-              el.dispatchEvent(new Event('change', { bubbles: true }));
+              this.dispatchEvent(new Event('input', { bubbles: true }));
+              this.dispatchEvent(new Event('change', { bubbles: true }));
             }
-          })()
-        `,
-      });
+          }`,
+          arguments: [{ value: text }],
+        },
+        handle.sessionId
+      );
     } else {
       // For contenteditable, also set via insertText for frameworks that listen to input events
-      await client.Runtime.evaluate({
-        expression: `
-          (function() {
-            const el = document.activeElement;
-            if (el && el.isContentEditable) {
+      await client.Runtime.callFunctionOn(
+        {
+          objectId: handle.objectId,
+          functionDeclaration: `function(text) {
+            if (this.isContentEditable) {
               // If the key events didn't work, force set the text
-              if (!el.textContent || el.textContent.trim() === '') {
-                el.textContent = ${JSON.stringify(text)};
-                el.dispatchEvent(new Event('input', { bubbles: true }));
+              if (!this.textContent || this.textContent.trim() === '') {
+                this.textContent = text;
+                this.dispatchEvent(new Event('input', { bubbles: true }));
               }
             }
-          })()
-        `,
-      });
+          }`,
+          arguments: [{ value: text }],
+        },
+        handle.sessionId
+      );
     }
 
     const label = focusMsg.replace("FOCUSED_CE: ", "").replace("FOCUSED: ", "");
-    return `Typed "${text.slice(0, 80)}${text.length > 80 ? "..." : ""}" into ${label}`;
+    return `Typed "${text.slice(0, 80)}${text.length > 80 ? "..." : ""}" into ${label}${insert ? " (inserted as text)" : ""}`;
+  }
+
+  /**
+   * Fill several form controls at once. Keys are labels, names, ids, CSS
+   * selectors or refs; values are text, booleans for checkboxes, option
+   * labels for selects and radio groups, or arrays for multi-selects.
+   * Reports each field as set, skipped or failed, then any :invalid state.
+   */
+  async fillForm(fields: Record<string, unknown>): Promise<string> {
+    const client = await this.ensureConnected();
+    const lines: string[] = [];
+    const filled: Array<{ key: string; handle: ElementHandle }> = [];
+    const counts = { set: 0, skipped: 0, failed: 0 };
+
+    const invalid: string[] = [];
+    let others: string[] = [];
+    try {
+      for (const [key, value] of Object.entries(fields)) {
+        const found = await this.findElement(client, key, FIELD_FINDER);
+        if ("error" in found) {
+          counts.failed++;
+          lines.push(`- ${key}: FAILED — ${found.error.replace(/^ERROR: /, "")}`);
+          continue;
+        }
+        let outcome: { status: "set" | "skipped" | "failed"; detail: string } | undefined;
+        try {
+          const { result } = await client.Runtime.callFunctionOn(
+            {
+              objectId: found.objectId,
+              functionDeclaration: FILL_FIELD_FN,
+              arguments: [{ value }],
+              returnByValue: true,
+            },
+            found.sessionId
+          );
+          outcome = result.value;
+        } catch (err: any) {
+          outcome = { status: "failed", detail: err.message };
+        }
+        if (!outcome) outcome = { status: "failed", detail: "no result from the page" };
+        counts[outcome.status]++;
+        if (outcome.status === "set") {
+          filled.push({ key, handle: found });
+          lines.push(`- ${key}: set to ${outcome.detail}`);
+        } else {
+          lines.push(`- ${key}: ${outcome.status === "failed" ? "FAILED" : "skipped"} — ${outcome.detail}`);
+        }
+      }
+
+      // Check validity only after every field is in, so cross-field rules (confirm password, date ranges) settle
+      await new Promise((r) => setTimeout(r, 100));
+      for (const { key, handle } of filled) {
+        try {
+          const { result } = await client.Runtime.callFunctionOn(
+            { objectId: handle.objectId, functionDeclaration: FIELD_VALIDITY_FN, returnByValue: true },
+            handle.sessionId
+          );
+          if (result.value) invalid.push(`- ${key}: ${result.value}`);
+        } catch {
+          // Re-rendered away — nothing to report
+        }
+      }
+      if (filled.length > 0) {
+        try {
+          const { result } = await client.Runtime.callFunctionOn(
+            { objectId: filled[0].handle.objectId, functionDeclaration: FORM_INVALID_FN, returnByValue: true },
+            filled[0].handle.sessionId
+          );
+          others = (result.value as string[] | undefined) || [];
+        } catch {}
+      }
+    } finally {
+      // Only successfully set controls carry the marker — take it off the site's DOM again
+      for (const { handle } of filled) {
+        await client.Runtime.callFunctionOn(
+          { objectId: handle.objectId, functionDeclaration: `function() { this.removeAttribute('${FILLED_MARKER}'); }` },
+          handle.sessionId
+        ).catch(() => {});
+      }
+    }
+
+    let output = `Form: ${counts.set} set, ${counts.skipped} skipped, ${counts.failed} failed\n${lines.join("\n")}`;
+    if (invalid.length > 0) output += `\n\nInvalid after filling:\n${invalid.join("\n")}`;
+    if (others.length > 0) output += `\n\nOther invalid fields in the form:\n${others.map((o) => `- ${o}`).join("\n")}`;
+    if (invalid.length === 0 && others.length === 0 && counts.set > 0) output += "\n\nNo validation errors.";
+    return output;
+  }
+
+  /**
+   * Attach local files to an upload target. File inputs get the files set
+   * directly; drop zones with no file input receive a native file drop.
+   * `files` must be absolute paths.
+   */
+  async uploadFile(selectorOrText: string, files: string[]): Promise<string> {
+    const client = await this.ensureConnected();
+    if (files.length === 0) return "ERROR: No files given.";
+    const names = files.map((f) => basename(f)).join(", ");
+
+    const found = await this.findElement(client, selectorOrText, FILE_TARGET_FINDER);
+    if ("error" in found) return found.error;
+
+    const { result: input } = await client.Runtime.callFunctionOn(
+      { objectId: found.objectId, functionDeclaration: FILE_INPUT_FN },
+      found.sessionId
+    );
+
+    if (input.subtype === "node" && input.objectId) {
+      const { result: info } = await client.Runtime.callFunctionOn(
+        {
+          objectId: input.objectId,
+          functionDeclaration: `function() {
+            return { multiple: this.multiple, disabled: this.disabled, name: this.name || this.id || this.getAttribute('aria-label') || '' };
+          }`,
+          returnByValue: true,
+        },
+        found.sessionId
+      );
+      const { multiple, disabled, name } = info.value as { multiple: boolean; disabled: boolean; name: string };
+      if (disabled) return `ERROR: The file input${name ? ` "${name}"` : ""} is disabled.`;
+      if (files.length > 1 && !multiple) {
+        return `ERROR: The file input${name ? ` "${name}"` : ""} accepts a single file, but ${files.length} were given.`;
+      }
+      // Chrome fires input/change itself, so framework listeners see the upload
+      await client.DOM.setFileInputFiles({ files, objectId: input.objectId }, found.sessionId);
+      return `Attached ${files.length} file(s) to INPUT[${name || "file"}]: ${names}`;
+    }
+
+    const center = await this.elementCenter(client, found);
+    if (!center) {
+      return `ERROR: Drop zone matching ${selectorOrText} is not rendered (no layout box).`;
+    }
+    const data = { items: [], files, dragOperationsMask: 1 };
+    for (const type of ["dragEnter", "dragOver", "drop"]) {
+      await client.Input.dispatchDragEvent({ type, x: center.x, y: center.y, data });
+    }
+    return `Dropped ${files.length} file(s) onto ${center.label}: ${names}`;
+  }
+
+  /**
+   * Run JavaScript in the page's own context — the tab, or the frame matched
+   * by `frame` (an iframe selector, `a >>> b` for nested frames). `code` is an
+   * expression or a function, sync or async; promises are awaited. The result
+   * comes back as JSON with DOM nodes and errors described, and truncated.
+   */
+  async evaluateScript(code: string, frame?: string): Promise<string> {
+    const client = await this.ensureConnected();
+    let ctx: FrameContext | undefined;
+    if (frame) {
+      const { frames, selector } = splitFrameScope(frame);
+      const scope = await this.resolveFrameScope([...frames, selector]);
+      if ("error" in scope) return scope.error;
+      ctx = this.frames.mainWorld(scope);
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const { result, exceptionDetails } = await Promise.race([
+      client.Runtime.evaluate(
+        {
+          expression: evaluateExpression(code),
+          contextId: ctx?.contextId,
+          awaitPromise: true,
+          returnByValue: false,
+          objectGroup: EVALUATE_OBJECT_GROUP,
+        },
+        ctx?.sessionId
+      ),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Script did not finish within ${EVALUATE_TIMEOUT_MS / 1000}s.`)),
+          EVALUATE_TIMEOUT_MS
+        );
+      }),
+    ]).finally(() => clearTimeout(timer));
+
+    try {
+      if (exceptionDetails) {
+        const message = exceptionDetails.exception?.description || exceptionDetails.text || "Script threw";
+        return `ERROR: ${truncateOutput(message)}`;
+      }
+
+      let output: string;
+      if (result.objectId) {
+        const serialized = await client.Runtime.callFunctionOn(
+          { functionDeclaration: SERIALIZE_RESULT_FN, objectId: result.objectId, returnByValue: true },
+          ctx?.sessionId
+        );
+        output = String(serialized.result.value);
+      } else if (result.type === "string") {
+        output = result.value;
+      } else if (result.unserializableValue !== undefined) {
+        output = result.unserializableValue;
+      } else {
+        output = result.type === "undefined" ? "undefined" : JSON.stringify(result.value);
+      }
+      return truncateOutput(output);
+    } finally {
+      // Results and thrown values stay pinned in the page until their group is released
+      await client.Runtime.releaseObjectGroup({ objectGroup: EVALUATE_OBJECT_GROUP }, ctx?.sessionId).catch(() => {});
+    }
+  }
+
+  /** Start recording screencast frames into `dir` (works before a tab is attached) */
+  async startRecording(dir: string, format: RecordingFormat): Promise<RecordingInfo> {
+    return this.recorder.start(dir, format);
+  }
+
+  /** Stop recording; returns what was recorded, or null if nothing was */
+  async stopRecording(): Promise<RecordingInfo | null> {
+    return this.recorder.stop();
+  }
+
+  recordingStatus(): RecordingInfo | null {
+    return this.recorder.status();
+  }
+
+  /** Note a tool call in the active recording; returns the frame on screen, or null */
+  markRecording(name: string): number | null {
+    return this.recorder.mark(name);
+  }
+
+  /** Save future downloads into `dir` (the CLI keeps this inside the working directory) */
+  async setDownloadDir(dir: string): Promise<void> {
+    await this.downloads.setDirectory(dir);
+  }
+
+  /**
+   * Wait for the next download not yet reported — optionally one whose file
+   * name contains `filename` — and return where it was saved and its size.
+   */
+  async waitForDownload(filename?: string, timeoutMs?: number): Promise<string> {
+    await this.ensureConnected();
+    const timeout = Math.min(timeoutMs || DEFAULT_DOWNLOAD_TIMEOUT_MS, MAX_DOWNLOAD_TIMEOUT_MS);
+    const download = await this.downloads.waitFor(filename, timeout);
+    if (!download) {
+      return (
+        `ERROR: No download${filename ? ` matching "${filename}"` : ""} started within ${timeout / 1000}s. ` +
+        `Click the download link or button first; if the file opened in a tab instead, read it from there.`
+      );
+    }
+    if (download.state === "inProgress") {
+      const total = download.totalBytes ? ` of ${formatSize(download.totalBytes)}` : "";
+      return (
+        `ERROR: "${download.filename}" is still downloading after ${timeout / 1000}s ` +
+        `(${formatSize(download.receivedBytes)}${total}). Call chrome_wait_for_download again to keep waiting.`
+      );
+    }
+    if (download.state === "canceled") {
+      return `ERROR: The download of "${download.filename}" was canceled (${download.url}).`;
+    }
+
+    const path = download.path!;
+    let size = download.receivedBytes;
+    try {
+      size = statSync(path).size;
+    } catch {
+      // Reported size is the best we have
+    }
+    return `Downloaded "${download.filename}" (${formatSize(size)}) to: ${path}`;
   }
 
   /** Scroll the page */
@@ -552,38 +2914,76 @@ export class ChromeClient {
     return `Scrolled ${direction} by ${pixels}px`;
   }
 
-  /** Press a keyboard key */
-  async pressKey(key: string): Promise<string> {
+  /**
+   * Press keys: a single key ("PageDown", "F5"), a chord ("Ctrl+Shift+K",
+   * "Mod+A"), or a space-separated sequence ("Tab Tab Enter"), `repeat` times.
+   */
+  async pressKey(keys: string, repeat = 1): Promise<string> {
     const client = await this.ensureConnected();
+    let chords: KeyChord[];
+    try {
+      chords = parseKeys(keys);
+    } catch (err: any) {
+      return `ERROR: ${err.message}`;
+    }
+    const times = Math.min(Math.max(1, Math.floor(repeat)), 100);
+    for (let i = 0; i < times; i++) {
+      for (const chord of chords) await this.dispatchChord(client, chord);
+    }
+    return `Pressed ${chords.map((c) => c.label).join(" ")}${times > 1 ? ` ×${times}` : ""}`;
+  }
 
-    // Map common key names to CDP key identifiers
-    const keyMap: Record<string, { key: string; code: string; keyCode: number }> = {
-      enter: { key: "Enter", code: "Enter", keyCode: 13 },
-      tab: { key: "Tab", code: "Tab", keyCode: 9 },
-      escape: { key: "Escape", code: "Escape", keyCode: 27 },
-      backspace: { key: "Backspace", code: "Backspace", keyCode: 8 },
-      arrowdown: { key: "ArrowDown", code: "ArrowDown", keyCode: 40 },
-      arrowup: { key: "ArrowUp", code: "ArrowUp", keyCode: 38 },
-      arrowleft: { key: "ArrowLeft", code: "ArrowLeft", keyCode: 37 },
-      arrowright: { key: "ArrowRight", code: "ArrowRight", keyCode: 39 },
-    };
-
-    const mapped = keyMap[key.toLowerCase()] || { key, code: key, keyCode: 0 };
+  /** Press one chord: modifiers down in order, the key down and up, modifiers up in reverse */
+  private async dispatchChord(client: CDP.Client, chord: KeyChord): Promise<void> {
+    const held = modifierKeys(chord.modifiers);
+    let active = 0;
+    for (const { bit, key } of held) {
+      active |= bit;
+      await client.Input.dispatchKeyEvent({
+        type: "rawKeyDown",
+        key: key.key,
+        code: key.code,
+        windowsVirtualKeyCode: key.keyCode,
+        location: key.location,
+        modifiers: active,
+      });
+    }
 
+    const { key } = chord;
+    // Ctrl/Alt/Meta chords are shortcuts, not typing — they insert no text
+    const text = chord.modifiers & ~MODIFIER_BITS.shift ? undefined : key.text;
+    const commands = editingCommands(chord);
     await client.Input.dispatchKeyEvent({
-      type: "keyDown",
-      key: mapped.key,
-      code: mapped.code,
-      windowsVirtualKeyCode: mapped.keyCode,
+      type: text ? "keyDown" : "rawKeyDown",
+      key: key.key,
+      code: key.code,
+      windowsVirtualKeyCode: key.keyCode,
+      text,
+      unmodifiedText: text,
+      location: key.location,
+      modifiers: chord.modifiers,
+      ...(commands.length > 0 ? { commands } : {}),
     });
     await client.Input.dispatchKeyEvent({
       type: "keyUp",
-      key: mapped.key,
-      code: mapped.code,
-      windowsVirtualKeyCode: mapped.keyCode,
+      key: key.key,
+      code: key.code,
+      windowsVirtualKeyCode: key.keyCode,
+      location: key.location,
+      modifiers: chord.modifiers,
     });
 
-    return `Pressed key: ${key}`;
+    for (const { bit, key: modifier } of [...held].reverse()) {
+      active &= ~bit;
+      await client.Input.dispatchKeyEvent({
+        type: "keyUp",
+        key: modifier.key,
+        code: modifier.code,
+        windowsVirtualKeyCode: modifier.keyCode,
+        location: modifier.location,
+        modifiers: active,
+      });
+    }
   }
 
   /** Wait for a specified number of milliseconds */
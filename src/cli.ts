@@ -1,8 +1,10 @@
 import * as readline from "readline";
-import { resolve } from "path";
+import { resolve, join } from "path";
 import { existsSync } from "fs";
+import { config } from "./config.js";
 import { ChromeClient } from "./chromeClient.js";
-import { GeminiClient, type GeminiResponse } from "./geminiClient.js";
+import type { DialogInfo } from "./dialogs.js";
+import { GeminiClient, type FunctionResult, type GeminiResponse } from "./geminiClient.js";
 import { Session } from "./session.js";
 import {
   allToolDeclarations,
@@ -10,8 +12,14 @@ import {
   setWorkingDir,
   getWorkingDir,
   onScreenshot,
+  onLocateElement,
+  onEvaluateApproval,
 } from "./tools.js";
 import { Memory } from "./memory.js";
+import { listAuthStates } from "./authState.js";
+import { describeEmulation, type EmulationState } from "./emulation.js";
+import type { InterceptRule } from "./intercept.js";
+import { exportRecording } from "./recorder.js";
 import type { ChatSession, Content } from "@google/generative-ai";
 
 // ─── ANSI helpers ────────────────────────────────────────────────────────────
@@ -75,6 +83,14 @@ function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
 
+/** The "Page changes: …" line of a click/type result, shortened for display */
+function pageChanges(result: string): string {
+  const line = result.split("\n").find((l) => l.startsWith("Page changes: "));
+  if (!line) return "";
+  const changes = line.slice("Page changes: ".length);
+  return ` · ${changes.length > 80 ? `${changes.slice(0, 79)}…` : changes}`;
+}
+
 async function withRetry<T>(
   fn: () => Promise<T>,
   _label: string,
@@ -118,6 +134,8 @@ export class CLI {
   private processing = false;
   private toolCallCount = 0;
   private lastUserMessage = "";
+  /** Screenshots captured by the running tool call, sent along with its result */
+  private pendingImages: Array<{ mimeType: string; data: string }> = [];
   private completedActions: string[] = [];
   private lastResponseHadText = false;
   private currentTaskLabel = "";
@@ -132,9 +150,22 @@ export class CLI {
     if (workingDir) {
       setWorkingDir(workingDir);
     }
+    this.chrome.setDownloadDir(resolve(getWorkingDir(), "downloads")).catch(() => {});
+
+    // Show screenshots inline and queue them for the model
+    onScreenshot((base64, mimeType) => {
+      this.displayInlineImage(base64);
+      this.pendingImages.push({ mimeType, data: base64 });
+    });
 
-    // Register inline screenshot display
-    onScreenshot((base64) => this.displayInlineImage(base64));
+    // chrome_click_visual asks the model where things are on screen
+    onLocateElement((image, description) => this.gemini.locateElement(image, description));
+
+    // Dialogs with the "ask" policy are answered on the terminal
+    this.chrome.setDialogPrompter((dialog) => this.askAboutDialog(dialog));
+
+    // Every chrome_evaluate script is shown for approval first
+    onEvaluateApproval((code, frame) => this.askAboutScript(code, frame));
 
     this.rl = readline.createInterface({
       input: process.stdin,
@@ -155,6 +186,7 @@ export class CLI {
       if (isDouble) {
         // Double Ctrl+C within 2s: always exit
         console.log(`\n${GRAY}Goodbye.${RESET}`);
+        this.chrome.killLaunchedChrome();
         process.exit(0);
       } else if (this.processing && !this.interrupted) {
         // First Ctrl+C during processing: interrupt the task
@@ -187,6 +219,24 @@ export class CLI {
       console.log(
         `    ${DIM}${this.session.allEntries().length} entries loaded${RESET}`
       );
+
+      // Come back with the device/environment the session was emulating
+      const emulation = [...this.session.allEntries()]
+        .reverse()
+        .find((e) => e.metadata?.emulation)?.metadata?.emulation as EmulationState | undefined;
+      if (emulation && describeEmulation(emulation) !== "none") {
+        this.chrome.restoreEmulation(emulation);
+        console.log(`    ${DIM}emulation: ${describeEmulation(emulation)}${RESET}`);
+      }
+
+      // …and with the same intercept rules, so the run can be reproduced
+      const interceptRules = [...this.session.allEntries()]
+        .reverse()
+        .find((e) => e.metadata?.interceptRules)?.metadata?.interceptRules as InterceptRule[] | undefined;
+      if (interceptRules && interceptRules.length > 0) {
+        await this.chrome.restoreInterceptRules(interceptRules);
+        console.log(`    ${DIM}${interceptRules.length} intercept rule(s) restored${RESET}`);
+      }
     } else {
       console.log(
         `  ${GREEN}✦${RESET} ${WHITE}New session${RESET} ${DIM}${this.session.id}${RESET}`
@@ -208,6 +258,10 @@ export class CLI {
       });
     }
 
+    if (config.recordScreencast) {
+      console.log(`    ${DIM}recording: ${await this.startRecording()}${RESET}`);
+    }
+
     const cwd = getWorkingDir().replace(process.env.HOME || "/Users", "~");
     console.log(`    ${DIM}cwd: ${cwd}${RESET}`);
     console.log(
@@ -283,9 +337,15 @@ ${BOLD}${CYAN}  ╭────────────────────
             summary: actions || "Session ended (no tracked actions)",
           });
         }
+        if (this.chrome.recordingStatus()) {
+          console.log(`${GRAY}  ${await this.stopRecording()}${RESET}`);
+        }
         console.log(`${GRAY}  Session saved: ${this.session.logPath}${RESET}`);
         console.log(`${GRAY}  Goodbye.${RESET}`);
         await this.chrome.detach();
+        if (this.chrome.killLaunchedChrome()) {
+          console.log(`${GRAY}  Closed the Chrome instance started by this session.${RESET}`);
+        }
         this.rl.close();
         process.exit(0);
         break;
@@ -356,6 +416,7 @@ ${BOLD}${CYAN}  ╭────────────────────
           break;
         }
         setWorkingDir(newDir);
+        await this.chrome.setDownloadDir(resolve(getWorkingDir(), "downloads"));
         console.log(
           `\n${GREEN}  ✓ ${getWorkingDir()}${RESET}\n`
         );
@@ -366,6 +427,120 @@ ${BOLD}${CYAN}  ╭────────────────────
         break;
       }
 
+      case "/har": {
+        if (!arg) {
+          console.log(`\n${YELLOW}  Usage: /har <file>${RESET}\n`);
+          break;
+        }
+        try {
+          const msg = await this.chrome.exportHar(resolve(getWorkingDir(), arg));
+          console.log(`\n${GREEN}  ✓ ${msg}${RESET}\n`);
+        } catch (err: any) {
+          console.log(`\n${RED}  ${err.message}${RESET}\n`);
+        }
+        break;
+      }
+
+      case "/cookies": {
+        const [sub, ...rest] = arg.split(/\s+/);
+        try {
+          let msg: string;
+          if (!sub) {
+            msg = await this.chrome.listCookies();
+          } else if (sub === "clear") {
+            msg = await this.chrome.deleteCookies(rest[0]);
+          } else if (sub === "set" && rest.join(" ").includes("=")) {
+            const pair = rest.join(" ");
+            const eq = pair.indexOf("=");
+            msg = await this.chrome.setCookie({ name: pair.slice(0, eq), value: pair.slice(eq + 1), path: "/" });
+          } else {
+            console.log(`\n${YELLOW}  Usage: /cookies [set <name>=<value> | clear [name]]${RESET}\n`);
+            break;
+          }
+          console.log(`\n${msg.startsWith("ERROR") ? RED : GREEN}  ${msg.replace(/\n/g, "\n  ")}${RESET}\n`);
+        } catch (err: any) {
+          console.log(`\n${RED}  ${err.message}${RESET}\n`);
+        }
+        break;
+      }
+
+      case "/storage": {
+        const parts = arg.split(/\s+/).filter(Boolean);
+        const area = parts[0] === "session" ? "session" : "local";
+        if (parts[0] === "local" || parts[0] === "session") parts.shift();
+        const [sub, ...rest] = parts;
+        try {
+          let msg: string;
+          if (!sub) {
+            msg = await this.chrome.readStorage(area);
+          } else if (sub === "clear") {
+            msg = await this.chrome.clearStorage(area, rest[0]);
+          } else if (sub === "set" && rest.join(" ").includes("=")) {
+            const pair = rest.join(" ");
+            const eq = pair.indexOf("=");
+            msg = await this.chrome.writeStorage(area, pair.slice(0, eq), pair.slice(eq + 1));
+          } else {
+            console.log(`\n${YELLOW}  Usage: /storage [local|session] [set <key>=<value> | clear [key]]${RESET}\n`);
+            break;
+          }
+          console.log(`\n${msg.startsWith("ERROR") ? RED : GREEN}  ${msg.replace(/\n/g, "\n  ")}${RESET}\n`);
+        } catch (err: any) {
+          console.log(`\n${RED}  ${err.message}${RESET}\n`);
+        }
+        break;
+      }
+
+      case "/auth": {
+        const [sub, name] = arg.split(/\s+/);
+        try {
+          if (sub === "save" && name) {
+            console.log(`\n${GREEN}  ✓ ${await this.chrome.saveAuth(name)}${RESET}\n`);
+          } else if (sub === "load" && name) {
+            const msg = await this.chrome.loadAuth(name);
+            this.session.append({ role: "system", content: msg });
+            console.log(`\n${GREEN}  ✓ ${msg}${RESET}\n`);
+          } else if (sub === "list" || !sub) {
+            const names = listAuthStates();
+            console.log(
+              names.length > 0
+                ? `\n${CYAN}  Saved auth states:${RESET} ${names.join(", ")}\n`
+                : `\n${GRAY}  No saved auth states. Log in, then /auth save <name>.${RESET}\n`
+            );
+          } else {
+            console.log(`\n${YELLOW}  Usage: /auth save <name> | /auth load <name> | /auth list${RESET}\n`);
+          }
+        } catch (err: any) {
+          console.log(`\n${RED}  ${err.message}${RESET}\n`);
+        }
+        break;
+      }
+
+      case "/record": {
+        const [sub, ...rest] = arg.split(/\s+/).filter(Boolean);
+        try {
+          if (sub === "start") {
+            console.log(`\n${GREEN}  ● Recording to ${await this.startRecording()}${RESET}\n`);
+          } else if (sub === "stop") {
+            console.log(`\n${GREEN}  ✓ ${await this.stopRecording()}${RESET}\n`);
+          } else if (sub === "export" && rest[0]) {
+            const out = rest[1] ? resolve(getWorkingDir(), rest[1]) : undefined;
+            console.log(`\n${GREEN}  ✓ ${exportRecording(resolve(getWorkingDir(), rest[0]), out)}${RESET}\n`);
+          } else if (!sub) {
+            const recording = this.chrome.recordingStatus();
+            console.log(
+              recording
+                ? `\n${CYAN}  Recording${RESET} ${recording.dir} (${recording.frames} frames)\n`
+                : `\n${GRAY}  Not recording. /record start to begin.${RESET}\n`
+            );
+          } else {
+            console.log(`\n${YELLOW}  Usage: /record start | /record stop | /record export <dir> [file.mjpeg|file.png]${RESET}\n`);
+          }
+        } catch (err: any) {
+          console.log(`\n${RED}  ${err.message}${RESET}\n`);
+        }
+        break;
+      }
+
       case "/pwd":
         console.log(`\n  ${getWorkingDir()}\n`);
         break;
@@ -381,6 +556,17 @@ ${BOLD}${CYAN}  ╭────────────────────
         console.log(
           `  ${CYAN}Chrome${RESET}     ${tab ? `${tab.title}` : "Not connected"}`
         );
+        console.log(
+          `  ${CYAN}Emulation${RESET}  ${describeEmulation(this.chrome.emulationState())}`
+        );
+        const launched = this.chrome.launchedChromeInfo();
+        if (launched) {
+          console.log(`  ${CYAN}Launched${RESET}   ${launched}`);
+        }
+        const recording = this.chrome.recordingStatus();
+        if (recording) {
+          console.log(`  ${CYAN}Recording${RESET}  ${recording.dir} (${recording.frames} frames)`);
+        }
         console.log(
           `  ${CYAN}Log${RESET}        ${this.session.logPath}`
         );
@@ -399,6 +585,14 @@ ${CYAN}  Commands:${RESET}
     /tabs          List Chrome tabs
     /attach N      Attach to tab N
     /chrome <msg>  Send a browser task
+    /har <file>    Export tab's network traffic as HAR
+    /cookies       List cookies (set <name>=<value>, clear [name])
+    /storage       List localStorage (session, set <k>=<v>, clear [key])
+    /auth save N   Save this site's login state as N
+    /auth load N   Restore login state N into attached tabs
+    /record start  Record the browser into the sessions dir
+    /record stop   Stop recording and export it (MJPEG or animated PNG)
+    /record export Export a recording dir again (<dir> [file.mjpeg|file.png])
     /cd <path>     Change working directory
     /pwd           Print working directory
     /clear         Clear screen
@@ -419,6 +613,78 @@ ${CYAN}  Shortcuts:${RESET}
     }
   }
 
+  /** Start a recording in a new directory under the sessions dir; returns the directory */
+  private async startRecording(): Promise<string> {
+    let n = 1;
+    while (existsSync(join(config.sessionsDir, "recordings", `${this.session.id}-${n}`))) n++;
+    const dir = join(config.sessionsDir, "recordings", `${this.session.id}-${n}`);
+    await this.chrome.startRecording(dir, config.recordFormat);
+    this.session.append({ role: "system", content: `Recording started: ${dir}`, metadata: { recording: dir } });
+    return dir;
+  }
+
+  /** Stop recording and export it next to its frames; returns a summary */
+  private async stopRecording(): Promise<string> {
+    const recording = await this.chrome.stopRecording();
+    if (!recording) return "Not recording.";
+    let summary = `Recorded ${recording.frames} frame(s) in ${recording.dir}`;
+    if (recording.frames > 0) {
+      try {
+        summary = exportRecording(recording.dir);
+      } catch (err: any) {
+        summary += ` — export failed: ${err.message}`;
+      }
+    }
+    this.session.append({ role: "system", content: `Recording stopped. ${summary}` });
+    return summary;
+  }
+
+  /**
+   * Ask the user whether to accept a JavaScript dialog. Only while a task is
+   * running — otherwise the readline prompt owns the terminal and the dialog
+   * is left for the model.
+   */
+  private async askAboutDialog(
+    dialog: DialogInfo
+  ): Promise<{ accept: boolean; promptText?: string } | null> {
+    if (!this.processing) return null;
+
+    this.spinner.stop();
+    console.log(`\n${YELLOW}  ⚠  The page opened a ${dialog.type} dialog:${RESET}`);
+    console.log(`  ${WHITE}${dialog.message}${RESET}`);
+    const question =
+      dialog.type === "prompt"
+        ? `  ${DIM}Answer (empty to cancel):${RESET} `
+        : `  ${DIM}Accept? [y/N]${RESET} `;
+    const answer = await new Promise<string>((r) => this.rl.question(question, r));
+
+    const accept = dialog.type === "prompt" ? answer !== "" : /^y(es)?$/i.test(answer.trim());
+    const promptText = dialog.type === "prompt" && accept ? answer : undefined;
+    this.session.append({
+      role: "system",
+      content: `User ${accept ? "accepted" : "dismissed"} ${dialog.type} dialog: "${dialog.message}"`,
+    });
+    this.spinner.start("Continuing...");
+    return { accept, promptText };
+  }
+
+  private async askAboutScript(code: string, frame?: string): Promise<boolean> {
+    this.spinner.stop();
+    console.log(`\n${YELLOW}  ⚠  The agent wants to run JavaScript in the page${frame ? ` (frame ${frame})` : ""}:${RESET}`);
+    const lines = code.split("\n");
+    for (const line of lines.slice(0, 30)) console.log(`  ${WHITE}${line}${RESET}`);
+    if (lines.length > 30) console.log(`  ${DIM}… ${lines.length - 30} more lines${RESET}`);
+    const answer = await new Promise<string>((r) => this.rl.question(`  ${DIM}Run it? [y/N]${RESET} `, r));
+
+    const approved = /^y(es)?$/i.test(answer.trim());
+    this.session.append({
+      role: "system",
+      content: `User ${approved ? "approved" : "declined"} chrome_evaluate: ${code.slice(0, 500)}`,
+    });
+    this.spinner.start("Continuing...");
+    return approved;
+  }
+
   // ─── Gemini interaction ──────────────────────────────────────────────────
 
   private async sendToGemini(userMessage: string): Promise<void> {
@@ -544,10 +810,7 @@ ${CYAN}  Shortcuts:${RESET}
       this.printModelMessage(response.text);
     }
 
-    const functionResults: Array<{
-      name: string;
-      response: Record<string, any>;
-    }> = [];
+    const functionResults: FunctionResult[] = [];
 
     for (const call of response.calls) {
       // Check for interrupt before each tool call
@@ -556,10 +819,12 @@ ${CYAN}  Shortcuts:${RESET}
         return;
       }
 
-      // Log raw tool call to session
+      // Log raw tool call to session, with the recording frame on screen when it started
+      const frame = this.chrome.markRecording(call.name);
       this.session.append({
         role: "tool_call",
         content: JSON.stringify({ name: call.name, args: call.args }),
+        ...(frame !== null ? { metadata: { recordingFrame: frame } } : {}),
       });
 
       // Detect task boundary: new page = new task group
@@ -588,9 +853,31 @@ ${CYAN}  Shortcuts:${RESET}
         metadata: { tool: call.name },
       });
 
+      // Record emulation changes so a resumed session restores them
+      if (call.name === "chrome_emulate" && !result.startsWith("ERROR")) {
+        this.session.append({
+          role: "system",
+          content: result.split("\n")[0],
+          metadata: { emulation: this.chrome.emulationState() },
+        });
+      }
+
+      // Same for intercept rules — the full rule set, so the last entry wins
+      if (
+        (call.name === "chrome_intercept_add" || call.name === "chrome_intercept_clear") &&
+        !result.startsWith("ERROR")
+      ) {
+        this.session.append({
+          role: "system",
+          content: result.split("\n")[0],
+          metadata: { interceptRules: this.chrome.interceptRules() },
+        });
+      }
+
       functionResults.push({
         name: call.name,
         response: { result },
+        images: this.pendingImages.splice(0),
       });
 
       // Track significant actions for compaction summaries
@@ -777,22 +1064,87 @@ ${CYAN}  Shortcuts:${RESET}
         return "Listing browser tabs...";
       case "chrome_attach":
         return `Connecting to tab ${args.tabIndex ?? args.tabId}...`;
+      case "chrome_new_tab":
+        return `Opening new tab${args.url ? ` at ${String(args.url).slice(0, 60)}` : ""}...`;
+      case "chrome_close_tab":
+        return `Closing tab ${args.tabIndex ?? "(current)"}...`;
+      case "chrome_switch_tab":
+        return `Switching to tab ${args.tabIndex ?? args.tabId}...`;
       case "chrome_navigate":
         return `Navigating to ${(args.url || "").slice(0, 60)}...`;
       case "chrome_get_page_text":
-        return "Reading page...";
+        return args.query
+          ? `Searching page for "${String(args.query).slice(0, 40)}"...`
+          : `Reading page${args.page > 1 ? ` (page ${args.page})` : ""}...`;
+      case "chrome_extract":
+        return `Extracting ${(args.selector || "").slice(0, 40)}${args.next ? " across pages" : ""}...`;
+      case "chrome_snapshot":
+        return "Snapshotting page...";
       case "chrome_screenshot":
         return "Taking screenshot...";
       case "chrome_click":
         return `Clicking "${(args.target || "").slice(0, 50)}"...`;
+      case "chrome_click_visual":
+        return `Looking for "${(args.description || "").slice(0, 50)}"...`;
+      case "chrome_double_click":
+        return `Double-clicking "${(args.target || "").slice(0, 50)}"...`;
+      case "chrome_right_click":
+        return `Right-clicking "${(args.target || "").slice(0, 50)}"...`;
+      case "chrome_hover":
+        return `Hovering "${(args.target || "").slice(0, 50)}"...`;
+      case "chrome_drag":
+        return `Dragging "${(args.source || "").slice(0, 30)}" → "${(args.target || "").slice(0, 30)}"...`;
       case "chrome_type": {
         const snippet = (args.text || "").slice(0, 40);
         return `Typing "${snippet}..."`;
       }
+      case "chrome_handle_dialog":
+        return `${args.action === "dismiss" ? "Dismissing" : "Accepting"} dialog...`;
+      case "chrome_fill_form": {
+        let count = 0;
+        try {
+          count = Object.keys(typeof args.fields === "string" ? JSON.parse(args.fields) : args.fields || {}).length;
+        } catch {}
+        return `Filling ${count} form field(s)...`;
+      }
+      case "chrome_upload_file": {
+        const paths: string[] = Array.isArray(args.paths) ? args.paths : [args.paths];
+        return `Uploading ${paths.length} file(s)...`;
+      }
+      case "chrome_wait_for_download":
+        return `Waiting for download${args.filename ? ` "${args.filename}"` : ""}...`;
+      case "chrome_cookies":
+        return `${args.action && args.action !== "list" ? "Updating" : "Reading"} cookies...`;
+      case "chrome_storage":
+        return `${args.action && args.action !== "get" ? "Updating" : "Reading"} ${args.area || "local"}Storage...`;
+      case "chrome_emulate":
+        return `Emulating ${args.reset ? "(reset) " : ""}${args.device || "environment"}...`;
+      case "chrome_intercept_add":
+        return `Intercepting ${args.urlPattern} (${args.action})...`;
+      case "chrome_intercept_list":
+        return "Listing intercept rules...";
+      case "chrome_intercept_clear":
+        return args.id !== undefined ? `Removing intercept rule #${args.id}...` : "Clearing intercept rules...";
+      case "chrome_network_log":
+        return args.requestId !== undefined
+          ? `Inspecting request #${args.requestId}...`
+          : "Reading network log...";
+      case "chrome_performance": {
+        const throttling = [args.network, args.cpuSlowdown > 1 ? `CPU ${args.cpuSlowdown}x` : ""].filter(Boolean).join(", ");
+        return `Measuring performance${args.reload === false ? " (no reload)" : ""}${throttling ? ` with ${throttling}` : ""}...`;
+      }
+      case "chrome_console_logs":
+        return "Reading console...";
       case "chrome_scroll":
         return `Scrolling ${args.direction || "down"}...`;
       case "chrome_press_key":
         return `Pressing ${args.key}...`;
+      case "chrome_evaluate": {
+        const snippet = String(args.code || "").replace(/\s+/g, " ").slice(0, 50);
+        return `Evaluating ${snippet}${args.frame ? ` in ${args.frame}` : ""}...`;
+      }
+      case "chrome_wait_for":
+        return "Waiting for page condition...";
       case "chrome_wait":
         return `Waiting ${args.ms}ms...`;
       case "read_file":
@@ -834,7 +1186,10 @@ ${CYAN}  Shortcuts:${RESET}
         return `${BAR} ${GREEN}✓${RESET} ${DIM}Found ${tabCount} tab(s)${RESET}`;
       }
       case "chrome_attach":
-        return `${BAR} ${GREEN}✓${RESET} ${DIM}${result}${RESET}`;
+      case "chrome_new_tab":
+      case "chrome_close_tab":
+      case "chrome_switch_tab":
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}${result.split("\n")[0]}${RESET}`;
       case "chrome_navigate": {
         const urlMatch = result.match(/Navigated to: (.+)/);
         const url = urlMatch ? urlMatch[1].slice(0, 70) : args.url;
@@ -843,23 +1198,73 @@ ${CYAN}  Shortcuts:${RESET}
       case "chrome_get_page_text": {
         const titleMatch = result.match(/=== Page: (.+?) ===/);
         const title = titleMatch ? titleMatch[1].slice(0, 60) : "page";
-        return `${BAR} ${GREEN}✓${RESET} ${DIM}Read page: ${title}${RESET}`;
+        const pageMatch = result.match(/^Page (\d+ of \d+)/m);
+        const sectionMatch = result.match(/^(\d+ of \d+) section\(s\) match/m);
+        const part = sectionMatch ? ` (${sectionMatch[1]} sections match)` : pageMatch ? ` (page ${pageMatch[1]})` : "";
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}Read page: ${title}${part}${RESET}`;
+      }
+      case "chrome_extract":
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}${result.split("\n").slice(0, result.includes("\nWrote ") ? 2 : 1).join(" · ").slice(0, 140)}${RESET}`;
+      case "chrome_snapshot": {
+        const countMatch = result.match(/^(\d+) interactive element/m);
+        const count = countMatch ? countMatch[1] : "0";
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}Snapshot: ${count} interactive element(s)${RESET}`;
       }
       case "chrome_screenshot":
         return `${BAR} ${GREEN}✓${RESET} ${DIM}${result}${RESET}`;
       case "chrome_click": {
         const clickMatch = result.match(/Clicked: \w+ "(.+?)"/);
         const what = clickMatch ? clickMatch[1].slice(0, 50) : args.target;
-        return `${BAR} ${GREEN}✓${RESET} ${DIM}Clicked "${what}"${RESET}`;
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}Clicked "${what}"${pageChanges(result)}${RESET}`;
       }
+      case "chrome_click_visual":
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}${result.split("\n")[0].slice(0, 100)}${RESET}`;
+      case "chrome_double_click":
+      case "chrome_right_click":
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}${result.split("\n")[0].slice(0, 100)}${pageChanges(result)}${RESET}`;
+      case "chrome_hover":
+      case "chrome_drag":
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}${result.slice(0, 100)}${RESET}`;
       case "chrome_type": {
         const snippet = (args.text || "").slice(0, 50);
-        return `${BAR} ${GREEN}✓${RESET} ${DIM}Typed: "${snippet}..."${RESET}`;
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}Typed: "${snippet}..."${pageChanges(result)}${RESET}`;
+      }
+      case "chrome_fill_form": {
+        const failed = /\d+ failed/.test(result) && !/ 0 failed/.test(result);
+        const invalid = result.includes("Invalid after filling") || result.includes("Other invalid fields");
+        const icon = failed || invalid ? `${YELLOW}!${RESET}` : `${GREEN}✓${RESET}`;
+        return `${BAR} ${icon} ${DIM}${result.split("\n")[0]}${invalid ? " · validation errors" : ""}${RESET}`;
+      }
+      case "chrome_handle_dialog":
+      case "chrome_upload_file":
+      case "chrome_wait_for_download":
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}${result.slice(0, 100)}${RESET}`;
+      case "chrome_emulate":
+      case "chrome_intercept_add":
+      case "chrome_intercept_list":
+      case "chrome_intercept_clear":
+      case "chrome_cookies":
+      case "chrome_storage":
+      case "chrome_network_log":
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}${result.split("\n")[0].slice(0, 100)}${RESET}`;
+      case "chrome_performance": {
+        const first = result.split("\n").find((l) => /^1\. /.test(l));
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}${first ? `Worst: ${first.slice(3, 100)}` : "No performance problems found"}${RESET}`;
+      }
+      case "chrome_console_logs": {
+        const count = result.startsWith("No console") ? 0 : result.split("\n").filter((l) => l.startsWith("[")).length;
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}${count} console message(s)${RESET}`;
       }
       case "chrome_scroll":
         return `${BAR} ${GREEN}✓${RESET} ${DIM}Scrolled ${args.direction || "down"}${RESET}`;
       case "chrome_press_key":
         return `${BAR} ${GREEN}✓${RESET} ${DIM}Pressed ${args.key}${RESET}`;
+      case "chrome_evaluate": {
+        const preview = result.replace(/\s+/g, " ").slice(0, 100);
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}↳ ${preview}${result.length > 100 ? "…" : ""}${RESET}`;
+      }
+      case "chrome_wait_for":
+        return `${BAR} ${GREEN}✓${RESET} ${DIM}${result.split("\n")[0].slice(0, 100)}${RESET}`;
       case "chrome_wait":
         return `${BAR} ${GREEN}✓${RESET} ${DIM}Waited ${args.ms}ms${RESET}`;
       case "run_command": {
@@ -27,6 +27,20 @@ function loadEnvFrom(path: string): void {
 loadEnvFrom(GLOBAL_CONFIG);
 loadEnvFrom(LOCAL_ENV);
 
+/**
+ * What to do with a JavaScript dialog: accept or dismiss it automatically,
+ * ask the user in the terminal, or leave it open for the model to handle.
+ */
+export type DialogPolicy = "accept" | "dismiss" | "ask" | "model";
+
+const DIALOG_POLICIES: DialogPolicy[] = ["accept", "dismiss", "ask", "model"];
+
+// DIALOG_<TYPE> overrides DIALOG_POLICY, which overrides the per-type default
+function dialogPolicy(type: string, fallback: DialogPolicy): DialogPolicy {
+  const value = (process.env[`DIALOG_${type}`] || process.env.DIALOG_POLICY || "").trim().toLowerCase();
+  return DIALOG_POLICIES.includes(value as DialogPolicy) ? (value as DialogPolicy) : fallback;
+}
+
 export function buildConfig() {
   return {
     /** Gemini API key — required */
@@ -47,8 +61,53 @@ export function buildConfig() {
      */
     contextTurns: parseInt(process.env.CONTEXT_TURNS || "50", 10),
 
+    /** Chrome binary (default: first standard install location found) */
+    chromePath: process.env.CHROME_PATH || "",
+
+    /** Launch Chrome with --headless=new */
+    chromeHeadless: /^(1|true|yes)$/i.test(process.env.CHROME_HEADLESS || ""),
+
+    /** Profile for launched Chrome: "default", "temp", a profile name, or a user-data-dir path */
+    chromeProfile: process.env.CHROME_PROFILE || "default",
+
+    /** Window size for launched Chrome, e.g. "1280x800" */
+    chromeWindowSize: process.env.CHROME_WINDOW_SIZE || "",
+
+    /** Proxy server for launched Chrome */
+    chromeProxy: process.env.CHROME_PROXY || "",
+
+    /** Extra flags for launched Chrome, space-separated */
+    chromeFlags: (process.env.CHROME_FLAGS || "").split(/\s+/).filter(Boolean),
+
+    /** Let the agent run its own JavaScript in the page (chrome_evaluate) */
+    allowEvaluate: /^(1|true|yes)$/i.test(process.env.ALLOW_EVALUATE || ""),
+
+    /** Ask before every chrome_evaluate call; only turned off explicitly */
+    evaluateApproval: !/^(0|false|no)$/i.test(process.env.EVALUATE_APPROVAL || ""),
+
     /** Directory for session logs */
     sessionsDir: resolve(process.env.SESSIONS_DIR || "./sessions"),
+
+    /** Record the browser from the start of every session, as with /record start */
+    recordScreencast: /^(1|true|yes)$/i.test(process.env.RECORD_SCREENCAST || ""),
+
+    /** Frame format for recordings: "jpeg" (small, exports to MJPEG) or "png" (exports to animated PNG) */
+    recordFormat: (/^png$/i.test(process.env.RECORD_FORMAT || "") ? "png" : "jpeg") as "jpeg" | "png",
+
+    /** Directory for saved auth states (/auth save) */
+    authDir: resolve(process.env.AUTH_DIR || resolve(homedir(), ".gemini-chrome", "auth")),
+
+    /**
+     * JavaScript dialog policy per dialog type. Confirms and prompts go to the
+     * model by default so destructive "Are you sure?" dialogs are never
+     * accepted blindly.
+     */
+    dialogPolicy: {
+      alert: dialogPolicy("ALERT", "accept"),
+      confirm: dialogPolicy("CONFIRM", "model"),
+      prompt: dialogPolicy("PROMPT", "model"),
+      beforeunload: dialogPolicy("BEFOREUNLOAD", "accept"),
+    },
   } as const;
 }
 
@@ -0,0 +1,175 @@
+import type CDP from "chrome-remote-interface";
+
+export type ConsoleLevel = "error" | "warning" | "info" | "log" | "debug";
+
+export interface ConsoleEntry {
+  id: number;
+  level: ConsoleLevel;
+  /** "console", "exception", or the Log domain source (network, violation, …) */
+  source: string;
+  text: string;
+  /** url:line:col of the call site, if known */
+  location?: string;
+  stack?: string;
+  timestamp: string;
+}
+
+const MAX_ENTRIES = 500;
+const MAX_STACK_FRAMES = 10;
+
+/** Severity order, most severe first — filters include everything at or above a level */
+const SEVERITY: ConsoleLevel[] = ["error", "warning", "info", "log", "debug"];
+
+const LEVEL_ALIASES: Record<string, ConsoleLevel> = {
+  err: "error",
+  errors: "error",
+  warn: "warning",
+  warnings: "warning",
+  logs: "log",
+  verbose: "debug",
+};
+
+/** Look up a level by name ("warn", "Errors", …), or null if unknown */
+export function parseConsoleLevel(name: string): ConsoleLevel | null {
+  const key = name.trim().toLowerCase();
+  const level = LEVEL_ALIASES[key] ?? key;
+  return SEVERITY.includes(level as ConsoleLevel) ? (level as ConsoleLevel) : null;
+}
+
+function levelFromConsoleType(type: string): ConsoleLevel {
+  switch (type) {
+    case "error":
+    case "assert":
+      return "error";
+    case "warning":
+      return "warning";
+    case "info":
+      return "info";
+    case "debug":
+      return "debug";
+    default:
+      return "log";
+  }
+}
+
+function levelFromLogEntry(level: string): ConsoleLevel {
+  if (level === "error" || level === "warning" || level === "info") return level;
+  return "debug"; // "verbose"
+}
+
+/** Render a console argument the way DevTools would show it in one line */
+function formatArg(arg: CDP.RemoteObject): string {
+  if (arg.type === "string") return String(arg.value);
+  if (arg.value !== undefined) return JSON.stringify(arg.value);
+  if (arg.unserializableValue) return arg.unserializableValue;
+  return arg.description || arg.type;
+}
+
+function formatStack(stack?: CDP.StackTrace): string | undefined {
+  if (!stack || stack.callFrames.length === 0) return undefined;
+  return stack.callFrames
+    .slice(0, MAX_STACK_FRAMES)
+    .map((f) => `    at ${f.functionName || "(anonymous)"} (${f.url}:${f.lineNumber + 1}:${f.columnNumber + 1})`)
+    .join("\n");
+}
+
+function formatLocation(url?: string, line?: number, col?: number): string | undefined {
+  if (!url) return undefined;
+  return line !== undefined ? `${url}:${line + 1}:${(col ?? 0) + 1}` : url;
+}
+
+/** One-line summary of an entry for tool results */
+export function formatConsoleEntry(entry: ConsoleEntry, withStack = false): string {
+  const where = entry.location ? ` (${entry.location})` : "";
+  let line = `[${entry.level}] ${entry.source === "console" ? "" : `${entry.source}: `}${entry.text}${where}`;
+  if (withStack && entry.stack) line += `\n${entry.stack}`;
+  return line;
+}
+
+/**
+ * Rolling buffer of console messages, uncaught exceptions and browser log
+ * entries for one tab. Tracks which errors have already been reported so
+ * tool results can mention only new ones.
+ */
+export class ConsoleRecorder {
+  private entries: ConsoleEntry[] = [];
+  private nextId = 1;
+  /** Entries with id >= this have not been surfaced in a tool result yet */
+  private reportedUpTo = 1;
+  /** Browser timestamp (ms) of the newest event recorded */
+  private lastEventTime = 0;
+
+  /**
+   * Subscribe to Runtime/Log events on a (re)connected client for this tab.
+   * Enabling the domains replays messages Chrome has kept; those with a
+   * timestamp no newer than what we already recorded are dropped.
+   */
+  bind(client: CDP.Client): void {
+    const replayedUpTo = this.lastEventTime;
+    const isReplay = (time: number) => time <= replayedUpTo;
+
+    client.Runtime.consoleAPICalled((params) => {
+      if (isReplay(params.timestamp)) return;
+      const top = params.stackTrace?.callFrames[0];
+      this.push({
+        level: levelFromConsoleType(params.type),
+        source: "console",
+        text: params.args.map(formatArg).join(" "),
+        location: formatLocation(top?.url, top?.lineNumber, top?.columnNumber),
+        stack: params.type === "error" || params.type === "assert" || params.type === "trace"
+          ? formatStack(params.stackTrace)
+          : undefined,
+      }, params.timestamp);
+    });
+
+    client.Runtime.exceptionThrown(({ timestamp, exceptionDetails: d }) => {
+      if (isReplay(timestamp)) return;
+      // The exception's description is "TypeError: msg\n    at …" — keep the first line as text
+      const description = d.exception?.description || d.text;
+      this.push({
+        level: "error",
+        source: "exception",
+        text: description.split("\n")[0],
+        location: formatLocation(d.url, d.lineNumber, d.columnNumber),
+        stack: formatStack(d.stackTrace) || description.split("\n").slice(1).join("\n") || undefined,
+      }, timestamp);
+    });
+
+    client.Log.entryAdded(({ entry }) => {
+      if (isReplay(entry.timestamp)) return;
+      this.push({
+        level: levelFromLogEntry(entry.level),
+        source: entry.source,
+        text: entry.text,
+        location: formatLocation(entry.url, entry.lineNumber),
+        stack: formatStack(entry.stackTrace),
+      }, entry.timestamp);
+    });
+  }
+
+  private push(entry: Omit<ConsoleEntry, "id" | "timestamp">, eventTime: number): void {
+    this.lastEventTime = Math.max(this.lastEventTime, eventTime);
+    this.entries.push({ ...entry, id: this.nextId++, timestamp: new Date().toISOString() });
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    }
+  }
+
+  /** Entries at or above `level` (default: everything), newest `limit` kept */
+  list(level?: ConsoleLevel, limit = 50): ConsoleEntry[] {
+    const maxRank = level ? SEVERITY.indexOf(level) : SEVERITY.length - 1;
+    return this.entries.filter((e) => SEVERITY.indexOf(e.level) <= maxRank).slice(-limit);
+  }
+
+  /** Errors logged since the last call, marking them as reported */
+  takeNewErrors(): ConsoleEntry[] {
+    const fresh = this.entries.filter((e) => e.id >= this.reportedUpTo && e.level === "error");
+    this.markReported();
+    return fresh;
+  }
+
+  /** Treat everything logged so far as already reported */
+  markReported(): void {
+    this.reportedUpTo = this.nextId;
+  }
+}
@@ -0,0 +1,141 @@
+import type CDP from "chrome-remote-interface";
+import { config, type DialogPolicy } from "./config.js";
+
+export type DialogType = "alert" | "confirm" | "prompt" | "beforeunload";
+
+export interface DialogInfo {
+  type: DialogType;
+  message: string;
+  /** Pre-filled answer of a prompt() dialog */
+  defaultPrompt?: string;
+  url: string;
+}
+
+/** The user's decision on a dialog, or null to leave it to the model */
+export type DialogPrompter = (
+  dialog: DialogInfo
+) => Promise<{ accept: boolean; promptText?: string } | null>;
+
+/** `confirm dialog: "Delete this repo?"` */
+export function describeDialog(dialog: DialogInfo): string {
+  let text = `${dialog.type} dialog: "${dialog.message.slice(0, 300)}"`;
+  if (dialog.type === "prompt" && dialog.defaultPrompt) {
+    text += ` (default answer "${dialog.defaultPrompt.slice(0, 100)}")`;
+  }
+  return text;
+}
+
+/**
+ * Applies the configured policy to JavaScript dialogs of one tab. Dialogs
+ * left to the model stay open — blocking the page — until chrome_handle_dialog.
+ * Every dialog is reported through `notify` so it reaches the next tool result.
+ */
+export class DialogManager {
+  private client: CDP.Client | null = null;
+  private pending: DialogInfo | null = null;
+  private prompter: DialogPrompter | null = null;
+  private openListeners = new Set<(dialog: DialogInfo) => void>();
+  private notify: (notice: string) => void;
+
+  constructor(notify: (notice: string) => void) {
+    this.notify = notify;
+  }
+
+  /** Subscribe to dialog events on a (re)connected client */
+  bind(client: CDP.Client): void {
+    this.client = client;
+    this.pending = null;
+
+    client.Page.javascriptDialogOpening((params) => {
+      this.onOpening({
+        type: params.type as DialogType,
+        message: params.message || "",
+        defaultPrompt: params.defaultPrompt,
+        url: params.url || "",
+      }).catch(() => {});
+    });
+    client.Page.javascriptDialogClosed(() => {
+      this.pending = null;
+    });
+  }
+
+  /** Set how "ask" dialogs reach the user (the CLI prompts on the terminal) */
+  setPrompter(prompter: DialogPrompter): void {
+    this.prompter = prompter;
+  }
+
+  /** The dialog currently waiting for chrome_handle_dialog, if any */
+  open(): DialogInfo | null {
+    return this.pending;
+  }
+
+  private async onOpening(dialog: DialogInfo): Promise<void> {
+    let policy: DialogPolicy = config.dialogPolicy[dialog.type] ?? "accept";
+
+    if (policy === "ask") {
+      const choice = this.prompter ? await this.prompter(dialog).catch(() => null) : null;
+      if (choice) {
+        await this.respond(dialog, choice.accept, choice.promptText, "by the user");
+        return;
+      }
+      // Nobody to ask (no task running) — let the model decide
+      policy = "model";
+    }
+
+    if (policy === "model") {
+      this.pending = dialog;
+      this.notify(
+        `A ${describeDialog(dialog)} is open and blocking the page. ` +
+          `Call chrome_handle_dialog to accept or dismiss it` +
+          `${dialog.type === "prompt" ? " (pass promptText to answer)" : ""}.`
+      );
+      for (const listener of this.openListeners) listener(dialog);
+      return;
+    }
+
+    await this.respond(dialog, policy === "accept", undefined, "per dialog policy");
+  }
+
+  private async respond(
+    dialog: DialogInfo,
+    accept: boolean,
+    promptText: string | undefined,
+    how: string
+  ): Promise<void> {
+    await this.client?.Page.handleJavaScriptDialog({ accept, promptText }).catch(() => {
+      // Ignore errors if dialog already dismissed
+    });
+    const answer = accept && promptText !== undefined ? ` with "${promptText.slice(0, 100)}"` : "";
+    this.notify(`${accept ? "Accepted" : "Dismissed"} ${describeDialog(dialog)}${answer} (${how}).`);
+  }
+
+  /** Accept or dismiss the open dialog on the model's behalf */
+  async handle(accept: boolean, promptText?: string): Promise<string> {
+    const dialog = this.pending;
+    if (!dialog || !this.client) return "ERROR: No JavaScript dialog is open.";
+    await this.client.Page.handleJavaScriptDialog({ accept, promptText });
+    this.pending = null;
+    const answer = accept && promptText !== undefined ? ` with "${promptText.slice(0, 100)}"` : "";
+    return `${accept ? "Accepted" : "Dismissed"} ${describeDialog(dialog)}${answer}`;
+  }
+
+  /**
+   * Wait for a browser action, but stop waiting if it opens a dialog left to
+   * the model — the action itself stays blocked until the dialog is handled.
+   */
+  async untilDecision(work: Promise<string>): Promise<string> {
+    // The action may settle long after we stopped waiting for it
+    work.catch(() => {});
+    let listener: (dialog: DialogInfo) => void = () => {};
+    const opened = new Promise<string>((resolve) => {
+      listener = (dialog) =>
+        resolve(`Paused: the action opened a ${dialog.type} dialog and continues once it is handled.`);
+      this.openListeners.add(listener);
+    });
+    try {
+      return await Promise.race([work, opened]);
+    } finally {
+      this.openListeners.delete(listener);
+    }
+  }
+}
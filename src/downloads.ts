@@ -0,0 +1,180 @@
+import { existsSync, mkdirSync, renameSync } from "fs";
+import { basename, extname, join, resolve } from "path";
+import type CDP from "chrome-remote-interface";
+
+export interface DownloadInfo {
+  guid: string;
+  url: string;
+  /** File name the site suggested, made safe for the file system */
+  filename: string;
+  state: "inProgress" | "completed" | "canceled";
+  receivedBytes: number;
+  totalBytes: number;
+  /** Directory the download was saved into */
+  dir: string;
+  /** Final location, once completed */
+  path?: string;
+  /** Already returned by chrome_wait_for_download */
+  reported: boolean;
+}
+
+/** `1.4 MB`, `512 B` */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function safeFilename(name: string): string {
+  const cleaned = basename(name).replace(/[\\/:*?"<>|\x00-\x1f]/g, "_").trim();
+  return cleaned || "download";
+}
+
+/** `dir/name`, or `dir/name (2).ext` if that is taken */
+function uniquePath(dir: string, name: string): string {
+  const ext = extname(name);
+  const stem = name.slice(0, name.length - ext.length);
+  let candidate = join(dir, name);
+  for (let n = 2; existsSync(candidate); n++) candidate = join(dir, `${stem} (${n})${ext}`);
+  return candidate;
+}
+
+/**
+ * Saves the attached tab's downloads into one directory and follows their
+ * progress. Files are stored under their GUID while in flight and renamed
+ * to the site's file name when complete, so two "export.csv" downloads
+ * never overwrite each other. Downloads outlive connections.
+ */
+export class DownloadTracker {
+  private downloads = new Map<string, DownloadInfo>();
+  private dir = resolve("downloads");
+  private client: CDP.Client | null = null;
+  /** Woken on every download event, for waitFor */
+  private listeners = new Set<() => void>();
+  private notify: (notice: string) => void;
+
+  constructor(notify: (notice: string) => void) {
+    this.notify = notify;
+  }
+
+  /** Subscribe to download events on a (re)connected client and route downloads to our directory */
+  async bind(client: CDP.Client): Promise<void> {
+    this.client = client;
+    // Chrome may report through both domains — events are de-duplicated by GUID
+    client.Browser.downloadWillBegin((params) => this.onBegin(params));
+    client.Browser.downloadProgress((params) => this.onProgress(params));
+    client.Page.downloadWillBegin((params) => this.onBegin(params));
+    client.Page.downloadProgress((params) => this.onProgress(params));
+    await this.apply();
+  }
+
+  /** Save future downloads into `dir` */
+  async setDirectory(dir: string): Promise<void> {
+    this.dir = dir;
+    await this.apply().catch(() => {});
+  }
+
+  directory(): string {
+    return this.dir;
+  }
+
+  private async apply(): Promise<void> {
+    if (!this.client) return;
+    try {
+      await this.client.Browser.setDownloadBehavior({
+        behavior: "allowAndName",
+        downloadPath: this.dir,
+        eventsEnabled: true,
+      });
+    } catch {
+      // Older Chrome: only the page-level variant, which saves under the site's file name
+      await this.client.Page.setDownloadBehavior({ behavior: "allow", downloadPath: this.dir });
+    }
+  }
+
+  private onBegin(params: CDP.DownloadWillBegin): void {
+    if (this.downloads.has(params.guid)) return;
+    mkdirSync(this.dir, { recursive: true });
+    const filename = safeFilename(params.suggestedFilename);
+    this.downloads.set(params.guid, {
+      guid: params.guid,
+      url: params.url,
+      filename,
+      state: "inProgress",
+      receivedBytes: 0,
+      totalBytes: 0,
+      dir: this.dir,
+      reported: false,
+    });
+    this.notify(`Download started: "${filename}". Call chrome_wait_for_download to get the saved file.`);
+    this.wake();
+  }
+
+  private onProgress(params: CDP.DownloadProgress): void {
+    const download = this.downloads.get(params.guid);
+    if (!download || download.state !== "inProgress") return;
+    download.receivedBytes = params.receivedBytes;
+    download.totalBytes = params.totalBytes;
+    if (params.state === "completed") {
+      download.path = this.finalize(download, params.filePath);
+      download.state = "completed";
+    } else if (params.state === "canceled") {
+      download.state = "canceled";
+    }
+    this.wake();
+  }
+
+  /** Move a GUID-named file to its real name; returns the final path */
+  private finalize(download: DownloadInfo, reportedPath?: string): string {
+    const inFlight = join(download.dir, download.guid);
+    if (existsSync(inFlight)) {
+      const target = uniquePath(download.dir, download.filename);
+      try {
+        renameSync(inFlight, target);
+        return target;
+      } catch {
+        return inFlight;
+      }
+    }
+    if (reportedPath && existsSync(reportedPath)) return reportedPath;
+    return join(download.dir, download.filename);
+  }
+
+  private wake(): void {
+    for (const listener of [...this.listeners]) listener();
+  }
+
+  /**
+   * Wait for the oldest download not yet returned (optionally one whose name
+   * contains `filename`) to finish. Returns it once completed or canceled,
+   * still in progress when the time runs out, or null if none started.
+   */
+  async waitFor(filename: string | undefined, timeoutMs: number): Promise<DownloadInfo | null> {
+    const wanted = filename?.toLowerCase();
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const download = [...this.downloads.values()].find(
+        (d) => !d.reported && (!wanted || d.filename.toLowerCase().includes(wanted))
+      );
+      if (download && download.state !== "inProgress") {
+        download.reported = true;
+        return download;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return download ?? null;
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          this.listeners.delete(done);
+          resolve();
+        };
+        const timer = setTimeout(done, remaining);
+        this.listeners.add(done);
+      });
+    }
+  }
+
+  list(): DownloadInfo[] {
+    return [...this.downloads.values()];
+  }
+}
@@ -0,0 +1,129 @@
+import type CDP from "chrome-remote-interface";
+
+/** Device/environment overrides for the attached tab. Unset fields are not emulated. */
+export interface EmulationState {
+  /** Preset the metrics came from, for display */
+  device?: string;
+  width?: number;
+  height?: number;
+  deviceScaleFactor?: number;
+  /** Mobile viewport meta handling and touch events */
+  mobile?: boolean;
+  userAgent?: string;
+  /** BCP 47 locale, e.g. "de-DE" — Intl formatting and Accept-Language */
+  locale?: string;
+  /** IANA zone, e.g. "America/New_York" */
+  timezone?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy: number };
+  colorScheme?: "light" | "dark";
+}
+
+type DevicePreset = Required<Pick<EmulationState, "width" | "height" | "deviceScaleFactor" | "mobile">> & {
+  label: string;
+  userAgent?: string;
+};
+
+export const DEVICE_PRESETS: Record<string, DevicePreset> = {
+  iphone: {
+    label: "iPhone 15",
+    width: 393,
+    height: 852,
+    deviceScaleFactor: 3,
+    mobile: true,
+    userAgent:
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1",
+  },
+  pixel: {
+    label: "Pixel 8",
+    width: 412,
+    height: 915,
+    deviceScaleFactor: 2.625,
+    mobile: true,
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36",
+  },
+  tablet: {
+    label: "iPad Air",
+    width: 820,
+    height: 1180,
+    deviceScaleFactor: 2,
+    mobile: true,
+    userAgent:
+      "Mozilla/5.0 (iPad; CPU OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1",
+  },
+  desktop: {
+    label: "Desktop 1080p",
+    width: 1920,
+    height: 1080,
+    deviceScaleFactor: 1,
+    mobile: false,
+  },
+};
+
+const PRESET_ALIASES: Record<string, string> = {
+  ipad: "tablet",
+  android: "pixel",
+  "1080p": "desktop",
+  desktop1080p: "desktop",
+};
+
+/** Look up a preset by name ("iPhone", "pixel", "Desktop 1080p", …) */
+export function findPreset(name: string): DevicePreset | null {
+  const key = name.toLowerCase().replace(/[\s_-]+/g, "");
+  return DEVICE_PRESETS[PRESET_ALIASES[key] ?? key] ?? null;
+}
+
+/** One-line summary, e.g. `iPhone 15 393x852@3x mobile, locale de-DE, dark` */
+export function describeEmulation(state: EmulationState): string {
+  const parts: string[] = [];
+  if (state.width && state.height) {
+    const metrics = `${state.width}x${state.height}@${state.deviceScaleFactor ?? 1}x${state.mobile ? " mobile" : ""}`;
+    parts.push(state.device ? `${state.device} ${metrics}` : metrics);
+  }
+  if (state.userAgent) parts.push(`UA "${state.userAgent.slice(0, 50)}${state.userAgent.length > 50 ? "…" : ""}"`);
+  if (state.locale) parts.push(`locale ${state.locale}`);
+  if (state.timezone) parts.push(`timezone ${state.timezone}`);
+  if (state.geolocation) parts.push(`geolocation ${state.geolocation.latitude},${state.geolocation.longitude}`);
+  if (state.colorScheme) parts.push(state.colorScheme);
+  return parts.length > 0 ? parts.join(", ") : "none";
+}
+
+/**
+ * Apply a full emulation state to a client, clearing anything not set.
+ * Overrides are per CDP session, so this runs again on every (re)attach.
+ */
+export async function applyEmulation(client: CDP.Client, state: EmulationState): Promise<void> {
+  if (state.width && state.height) {
+    await client.Emulation.setDeviceMetricsOverride({
+      width: state.width,
+      height: state.height,
+      deviceScaleFactor: state.deviceScaleFactor ?? 1,
+      mobile: !!state.mobile,
+    });
+  } else {
+    await client.Emulation.clearDeviceMetricsOverride();
+  }
+  await client.Emulation.setTouchEmulationEnabled({ enabled: !!state.mobile });
+
+  // Accept-Language rides on the UA override, so a locale alone still needs one
+  if (state.userAgent || state.locale) {
+    const userAgent = state.userAgent || (await client.Browser.getVersion()).userAgent;
+    await client.Emulation.setUserAgentOverride({ userAgent, acceptLanguage: state.locale });
+  } else {
+    await client.Emulation.setUserAgentOverride({ userAgent: "" });
+  }
+
+  await client.Emulation.setLocaleOverride(state.locale ? { locale: state.locale } : {});
+  await client.Emulation.setTimezoneOverride({ timezoneId: state.timezone || "" });
+
+  if (state.geolocation) {
+    await client.Browser.grantPermissions({ permissions: ["geolocation"] }).catch(() => {});
+    await client.Emulation.setGeolocationOverride(state.geolocation);
+  } else {
+    await client.Emulation.clearGeolocationOverride();
+  }
+
+  await client.Emulation.setEmulatedMedia({
+    features: [{ name: "prefers-color-scheme", value: state.colorScheme || "" }],
+  });
+}
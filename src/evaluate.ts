@@ -0,0 +1,103 @@
+/** Size of chrome_evaluate output before it is cut off */
+export const EVALUATE_OUTPUT_CHARS = 8000;
+
+/** How long an awaited script may run before the tool gives up on it */
+export const EVALUATE_TIMEOUT_MS = 30000;
+
+/** Object group for script results, released once they are serialized */
+export const EVALUATE_OBJECT_GROUP = "gemini-evaluate";
+
+/**
+ * Wrap user code so both forms work: an expression (`document.title`,
+ * `fetch('/api').then(r => r.json())`) is returned as is, and a function —
+ * `async () => { … }` — is called with no arguments. The newline keeps a
+ * trailing `// comment` from swallowing the closing paren.
+ */
+export function evaluateExpression(code: string): string {
+  return `(async () => {
+    const __value = (${code}
+    );
+    return typeof __value === 'function' ? await __value() : __value;
+  })()`;
+}
+
+/**
+ * Called on the script's result (`this`) to turn it into JSON text that is
+ * always safe to return by value: DOM nodes become `<tag#id.class> "text"`,
+ * errors keep their message and top stack frames, Map/Set/NodeList become
+ * arrays, cycles are marked, and deep, long or wide values are cut short.
+ */
+export const SERIALIZE_RESULT_FN = `function() {
+  const MAX_DEPTH = 6;
+  const MAX_ITEMS = 100;
+  const MAX_STRING = 2000;
+  const ancestors = new Set();
+  const clip = (s, n) => (s.length > n ? s.slice(0, n) + '… (' + s.length + ' chars)' : s);
+  const describeNode = (node) => {
+    if (node.nodeType === 1) {
+      let label = '<' + node.tagName.toLowerCase();
+      if (node.id) label += '#' + node.id;
+      if (node.classList.length) label += '.' + [...node.classList].slice(0, 3).join('.');
+      label += '>';
+      const text = (node.innerText || node.textContent || '').replace(/\\s+/g, ' ').trim();
+      return text ? label + ' "' + clip(text, 80) + '"' : label;
+    }
+    if (node.nodeType === 3) return '#text "' + clip(node.textContent.trim(), 80) + '"';
+    if (node.nodeType === 9) return '#document ' + node.URL;
+    return node.nodeName;
+  };
+  const walk = (value, depth) => {
+    if (value === null) return null;
+    const type = typeof value;
+    if (type === 'undefined') return '[undefined]';
+    if (type === 'string') return clip(value, MAX_STRING);
+    if (type === 'number') return Number.isFinite(value) ? value : String(value);
+    if (type === 'boolean') return value;
+    if (type === 'bigint') return value + 'n';
+    if (type === 'symbol') return value.toString();
+    if (type === 'function') return '[function ' + (value.name || 'anonymous') + ']';
+    if (typeof Node !== 'undefined' && value instanceof Node) return describeNode(value);
+    if (typeof Window !== 'undefined' && value instanceof Window) {
+      try { return '[Window ' + value.location.href + ']'; } catch (e) { return '[Window (cross-origin)]'; }
+    }
+    if (value instanceof Error) {
+      const stack = (value.stack || '').split('\\n').filter((l) => /^\\s+at /.test(l)).slice(0, 5).map((l) => l.trim());
+      return { error: value.name + ': ' + value.message, stack };
+    }
+    if (value instanceof Date) return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    if (value instanceof RegExp) return String(value);
+    if (typeof value.then === 'function') return '[Promise]';
+    if (ancestors.has(value)) return '[circular]';
+    if (depth >= MAX_DEPTH) return Array.isArray(value) ? '[Array(' + value.length + ')]' : '[Object]';
+
+    ancestors.add(value);
+    try {
+      let items = null;
+      if (value instanceof Map) items = [...value.entries()];
+      else if (value instanceof Set) items = [...value.values()];
+      else if (Array.isArray(value) || ArrayBuffer.isView(value)) items = Array.from(value);
+      else if (typeof value.length === 'number' && typeof value.item === 'function') items = Array.from(value);
+      if (items) {
+        const out = items.slice(0, MAX_ITEMS).map((item) => walk(item, depth + 1));
+        if (items.length > MAX_ITEMS) out.push('… ' + (items.length - MAX_ITEMS) + ' more');
+        return out;
+      }
+      const out = {};
+      const keys = Object.keys(value);
+      for (const key of keys.slice(0, MAX_ITEMS)) {
+        try { out[key] = walk(value[key], depth + 1); } catch (e) { out[key] = '[threw ' + e.message + ']'; }
+      }
+      if (keys.length > MAX_ITEMS) out['…'] = (keys.length - MAX_ITEMS) + ' more keys';
+      return out;
+    } finally {
+      ancestors.delete(value);
+    }
+  };
+  return JSON.stringify(walk(this, 0), null, 2);
+}`;
+
+/** Cut evaluate output to EVALUATE_OUTPUT_CHARS, saying how much was dropped */
+export function truncateOutput(text: string): string {
+  if (text.length <= EVALUATE_OUTPUT_CHARS) return text;
+  return `${text.slice(0, EVALUATE_OUTPUT_CHARS)}\n… (truncated, ${text.length} chars total)`;
+}
@@ -0,0 +1,226 @@
+import { writeFileSync, mkdirSync } from "fs";
+import { dirname, extname } from "path";
+
+/** How to read one field of an item: a CSS selector within the item, and optionally an attribute */
+export interface FieldSpec {
+  selector?: string;
+  /** Read this attribute instead of the text (e.g. "href", "src", "datetime") */
+  attr?: string;
+  type?: "string" | "number" | "boolean";
+}
+
+export type ExtractSchema = Record<string, FieldSpec>;
+
+export type ExtractedRow = Record<string, string | number | boolean | null>;
+
+export interface ExtractOptions {
+  /** Table, list, or repeated item elements */
+  selector: string;
+  /** Fields to read from each item; table columns / item text when unset */
+  schema?: ExtractSchema;
+  /** Pagination control: a CSS selector, or "auto" to look for a "Next" link */
+  next?: string;
+  /** Pages to read when following `next` (including the current one) */
+  maxPages?: number;
+}
+
+/** Marks the element the pagination step should click */
+export const NEXT_MARKER = "data-gemini-extract-next";
+
+/** A field object as written in a schema, before its values are checked */
+interface RawFieldSpec {
+  selector?: unknown;
+  attr?: unknown;
+  type?: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a field schema. Accepts a plain map (`{"title": "h3", "link": "a@href"}`),
+ * a map of FieldSpec objects, or a JSON Schema with `properties` (optionally
+ * under `items`) whose entries carry `selector`/`attr` alongside `type`.
+ * Fields without a selector are looked up by itemprop, data-field or class name.
+ */
+export function parseSchema(input: string): ExtractSchema {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(input);
+  } catch (err: any) {
+    throw new Error(`Schema is not valid JSON: ${err.message}`);
+  }
+  if (isObject(raw) && isObject(raw.items)) raw = raw.items;
+  if (isObject(raw) && isObject(raw.properties)) raw = raw.properties;
+  if (!isObject(raw) || Object.keys(raw).length === 0) {
+    throw new Error("Schema must map field names to selectors, e.g. {\"title\": \"h3\", \"link\": \"a@href\"}.");
+  }
+
+  const schema: ExtractSchema = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (typeof value === "string") {
+      const at = value.lastIndexOf("@");
+      schema[name] = at > 0 ? { selector: value.slice(0, at), attr: value.slice(at + 1) } : { selector: value };
+      continue;
+    }
+    const spec: RawFieldSpec = isObject(value) ? value : {};
+    const type = spec.type === "integer" ? "number" : spec.type;
+    schema[name] = {
+      selector: typeof spec.selector === "string" ? spec.selector : undefined,
+      attr: typeof spec.attr === "string" ? spec.attr : undefined,
+      type: type === "number" || type === "boolean" ? type : "string",
+    };
+  }
+  return schema;
+}
+
+/**
+ * In-page expression returning `{ rows, error? }` for the elements matching
+ * `selector`: table rows keyed by header (a table selector), list items (a
+ * ul/ol selector), or one row per matched element — with `schema` fields
+ * when given, else the element's text and link.
+ */
+export function extractExpression(selector: string, schema?: ExtractSchema): string {
+  return `
+    (function() {
+      const selector = ${JSON.stringify(selector)};
+      const schema = ${JSON.stringify(schema ?? null)};
+      const clean = (s) => (s || '').replace(/\\s+/g, ' ').trim();
+      const cssEscape = (s) => (window.CSS && CSS.escape ? CSS.escape(s) : s);
+      const convert = (value, type) => {
+        if (value === null) return null;
+        if (type === 'number') {
+          const n = parseFloat(value.replace(/[^0-9.,-]/g, '').replace(/,(?=\\d{3}\\b)/g, '').replace(',', '.'));
+          return isNaN(n) ? null : n;
+        }
+        if (type === 'boolean') return !/^(|0|false|no|off)$/i.test(value);
+        return value;
+      };
+      const readField = (item, name, spec) => {
+        let el = item;
+        if (spec.selector) {
+          el = spec.selector === ':scope' ? item : item.querySelector(spec.selector);
+        } else {
+          const key = cssEscape(name);
+          el = item.querySelector('[itemprop="' + key + '"], [data-field="' + key + '"], [class*="' + key + '" i]');
+        }
+        if (!el) return null;
+        let value;
+        if (spec.attr) {
+          value = spec.attr === 'href' || spec.attr === 'src' ? el[spec.attr] || el.getAttribute(spec.attr) : el.getAttribute(spec.attr);
+        } else {
+          value = clean(el.matches('input, select, textarea') ? el.value : el.innerText || el.textContent);
+        }
+        return convert(value === undefined ? null : value, spec.type);
+      };
+      const readItem = (item) => {
+        if (schema) {
+          const row = {};
+          for (const [name, spec] of Object.entries(schema)) row[name] = readField(item, name, spec);
+          return row;
+        }
+        const row = { text: clean(item.innerText || item.textContent) };
+        const link = item.matches('a[href]') ? item : item.querySelector('a[href]');
+        if (link) row.href = link.href;
+        return row;
+      };
+      const readTable = (table) => {
+        const rows = [...table.rows];
+        let headerRow = table.tHead?.rows[0];
+        if (!headerRow && rows.length > 0 && [...rows[0].cells].every((c) => c.tagName === 'TH')) headerRow = rows[0];
+        const headers = headerRow
+          ? [...headerRow.cells].map((c, i) => clean(c.innerText) || 'column' + (i + 1))
+          : [];
+        return rows
+          .filter((r) => r !== headerRow && r.parentElement?.tagName !== 'THEAD' && r.parentElement?.tagName !== 'TFOOT')
+          .filter((r) => clean(r.innerText))
+          .map((r) => {
+            if (schema) return readItem(r);
+            const row = {};
+            [...r.cells].forEach((c, i) => {
+              const key = headers[i] || 'column' + (i + 1);
+              row[key] = clean(c.innerText);
+              const link = c.querySelector('a[href]');
+              if (link && !(key + '_href' in row)) row[key + '_href'] = link.href;
+            });
+            return row;
+          });
+      };
+
+      let matched;
+      try {
+        matched = [...document.querySelectorAll(selector)];
+      } catch (e) {
+        return { rows: [], error: 'Invalid selector: ' + e.message };
+      }
+      if (matched.length === 0) return { rows: [], error: 'No elements match ' + selector };
+
+      const rows = [];
+      for (const el of matched) {
+        const table = el.tagName === 'TABLE' ? el : matched.length === 1 ? el.querySelector('table') : null;
+        if (table) rows.push(...readTable(table));
+        else if (el.tagName === 'UL' || el.tagName === 'OL' || el.tagName === 'DL') {
+          rows.push(...[...el.children].filter((c) => c.tagName !== 'SCRIPT').map(readItem));
+        } else rows.push(readItem(el));
+      }
+      return { rows };
+    })()
+  `;
+}
+
+/**
+ * In-page expression that finds the pagination "next" control — `next` as a
+ * CSS selector, or "auto" for rel=next / aria-label / "Next", "›", "»" text —
+ * marks it with NEXT_MARKER and returns `{ found, disabled, href }`.
+ */
+export function nextPageExpression(next: string): string {
+  return `
+    (function() {
+      document.querySelectorAll('[${NEXT_MARKER}]').forEach((el) => el.removeAttribute('${NEXT_MARKER}'));
+      const next = ${JSON.stringify(next)};
+      const visible = (el) => el.getClientRects().length > 0;
+      let el = null;
+      if (next !== 'auto') {
+        try { el = document.querySelector(next); } catch (e) { return { found: false, error: e.message }; }
+      } else {
+        el = [...document.querySelectorAll('a[rel~="next"], [aria-label*="next" i]')].find(visible) || null;
+        if (!el) {
+          const label = /^(next|next page|more|load more|show more|›|»|→|>|next ›|next »|next →)$/i;
+          el = [...document.querySelectorAll('a, button, [role="button"], [role="link"]')]
+            .find((c) => visible(c) && label.test((c.innerText || c.getAttribute('aria-label') || '').trim())) || null;
+        }
+      }
+      if (!el) return { found: false };
+      const disabled = el.disabled || el.getAttribute('aria-disabled') === 'true' ||
+        el.classList.contains('disabled') || !!el.closest('.disabled');
+      el.setAttribute('${NEXT_MARKER}', '');
+      const raw = el.getAttribute('href') || '';
+      const href = el.tagName === 'A' && raw && !raw.startsWith('#') && !/^javascript:/i.test(raw) ? el.href : null;
+      return { found: true, disabled, href };
+    })()
+  `;
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Rows as CSV, with columns in first-seen order across all rows */
+export function toCsv(rows: ExtractedRow[]): string {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) if (!columns.includes(key)) columns.push(key);
+  }
+  const lines = [columns.map(csvCell).join(",")];
+  for (const row of rows) lines.push(columns.map((c) => csvCell(row[c])).join(","));
+  return lines.join("\n") + "\n";
+}
+
+/** Write rows as CSV or JSON, chosen by the file extension (.csv, else JSON) */
+export function writeRows(filePath: string, rows: ExtractedRow[]): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const content = extname(filePath).toLowerCase() === ".csv" ? toCsv(rows) : JSON.stringify(rows, null, 2) + "\n";
+  writeFileSync(filePath, content, "utf-8");
+}
@@ -0,0 +1,269 @@
+import type CDP from "chrome-remote-interface";
+
+/**
+ * Where to run page script: a CDP session (out-of-process iframe) and/or an
+ * execution context inside it (a same-process frame's isolated world).
+ * Both undefined means the main frame of the attached tab.
+ */
+export interface FrameContext {
+  frameId: string;
+  url: string;
+  sessionId?: string;
+  contextId?: number;
+}
+
+/** A remote element, plus the session it lives in when inside an OOPIF */
+export interface ElementHandle {
+  objectId: string;
+  sessionId?: string;
+}
+
+/** Separator for scoping a selector to a frame: `iframe#pay >>> input[name=card]` */
+const FRAME_SCOPE_SEPARATOR = ">>>";
+
+const WORLD_NAME = "gemini-in-chrome";
+
+/**
+ * In-page helpers for searching across open shadow roots (and, when asked,
+ * same-origin iframes). Prepend to an expression, then use
+ * `__deepQuery(sel)` / `__deepQueryAll(sel)` in place of `document.querySelector*`.
+ */
+export const DEEP_QUERY_JS = `
+  const __roots = (root, includeFrames) => {
+    const out = [root];
+    for (const el of root.querySelectorAll('*')) {
+      if (el.shadowRoot) out.push(...__roots(el.shadowRoot, includeFrames));
+      if (includeFrames && (el.tagName === 'IFRAME' || el.tagName === 'FRAME')) {
+        try {
+          if (el.contentDocument) out.push(...__roots(el.contentDocument, includeFrames));
+        } catch (e) { /* cross-origin */ }
+      }
+    }
+    return out;
+  };
+  let __rootsCache = null;
+  const __allRoots = () => __rootsCache || (__rootsCache = __roots(document, true));
+  const __deepQuery = (sel) => {
+    for (const root of __allRoots()) {
+      const el = root.querySelector(sel);
+      if (el) return el;
+    }
+    return null;
+  };
+  const __deepQueryAll = (sel) => __allRoots().flatMap((root) => [...root.querySelectorAll(sel)]);
+`;
+
+/**
+ * Split `a >>> b >>> selector` into the frame selectors to descend through
+ * and the final element target.
+ */
+export function splitFrameScope(target: string): { frames: string[]; selector: string } {
+  const parts = target.split(FRAME_SCOPE_SEPARATOR).map((p) => p.trim());
+  const selector = parts.pop() || "";
+  return { frames: parts.filter(Boolean), selector };
+}
+
+/**
+ * Tracks the frames of the attached tab: same-process child frames (reached
+ * through isolated worlds) and out-of-process iframes (reached through
+ * flattened auto-attach sessions). Rebound on every (re)connection.
+ */
+export class FrameManager {
+  private client: CDP.Client | null = null;
+  /** OOPIF sessions: sessionId → the frame it hosts and the session that owns its <iframe> */
+  private sessions = new Map<string, { targetId: string; url: string; parentSessionId?: string }>();
+  /** Isolated world per frame, keyed by `${sessionId}:${frameId}` */
+  private worlds = new Map<string, number>();
+  /** The page's own (main world) context per frame, same keys as `worlds` */
+  private mainWorlds = new Map<string, number>();
+
+  /**
+   * Track the page's main-world contexts, for running the page's own script
+   * (chrome_evaluate) rather than our isolated one. Must be called before
+   * Runtime.enable, which reports the contexts that already exist.
+   */
+  watchContexts(client: CDP.Client): void {
+    this.mainWorlds.clear();
+    client.Runtime.executionContextCreated(({ context }, sessionId) => {
+      if (!context.auxData?.isDefault || !context.auxData.frameId) return;
+      this.mainWorlds.set(`${sessionId ?? ""}:${context.auxData.frameId}`, context.id);
+    });
+    client.Runtime.executionContextDestroyed(({ executionContextId }, sessionId) => {
+      for (const [key, id] of this.mainWorlds) {
+        if (id === executionContextId && key.startsWith(`${sessionId ?? ""}:`)) this.mainWorlds.delete(key);
+      }
+    });
+    client.Runtime.executionContextsCleared((_params, sessionId) => {
+      for (const key of this.mainWorlds.keys()) {
+        if (key.startsWith(`${sessionId ?? ""}:`)) this.mainWorlds.delete(key);
+      }
+    });
+  }
+
+  async bind(client: CDP.Client): Promise<void> {
+    this.client = client;
+    this.sessions.clear();
+    this.worlds.clear();
+
+    client.Target.attachedToTarget(({ sessionId, targetInfo, waitingForDebugger }, parentSessionId) => {
+      if (targetInfo.type !== "iframe") {
+        if (waitingForDebugger) client.Runtime.runIfWaitingForDebugger({}, sessionId).catch(() => {});
+        return;
+      }
+      this.sessions.set(sessionId, { targetId: targetInfo.targetId, url: targetInfo.url, parentSessionId });
+      // Nested OOPIFs attach through their parent's session
+      client.DOM.enable({}, sessionId).catch(() => {});
+      this.autoAttach(sessionId).catch(() => {});
+      if (waitingForDebugger) client.Runtime.runIfWaitingForDebugger({}, sessionId).catch(() => {});
+    });
+    client.Target.detachedFromTarget(({ sessionId }) => {
+      this.sessions.delete(sessionId);
+      for (const key of this.worlds.keys()) {
+        if (key.startsWith(`${sessionId}:`)) this.worlds.delete(key);
+      }
+    });
+    client.Target.targetInfoChanged(({ targetInfo }) => {
+      for (const info of this.sessions.values()) {
+        if (info.targetId === targetInfo.targetId) info.url = targetInfo.url;
+      }
+    });
+
+    try {
+      await this.autoAttach(undefined);
+    } catch {
+      // Without auto-attach only same-process frames are reachable
+    }
+  }
+
+  private async autoAttach(sessionId: string | undefined): Promise<void> {
+    const client = this.requireClient();
+    const params = { autoAttach: true, waitForDebuggerOnStart: false, flatten: true };
+    try {
+      await client.Target.setAutoAttach({ ...params, filter: [{ type: "iframe" }] }, sessionId);
+    } catch {
+      // Older Chrome: no target filter support
+      await client.Target.setAutoAttach(params, sessionId);
+    }
+  }
+
+  private requireClient(): CDP.Client {
+    if (!this.client) throw new Error("Not connected to any Chrome tab.");
+    return this.client;
+  }
+
+  /** Isolated world for a same-process frame, or undefined if the frame isn't local to `sessionId` */
+  private async isolatedWorld(frameId: string, sessionId?: string): Promise<number | undefined> {
+    const key = `${sessionId ?? ""}:${frameId}`;
+    const cached = this.worlds.get(key);
+    if (cached !== undefined) return cached;
+    try {
+      const { executionContextId } = await this.requireClient().Page.createIsolatedWorld(
+        { frameId, worldName: WORLD_NAME },
+        sessionId
+      );
+      this.worlds.set(key, executionContextId);
+      return executionContextId;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Every frame except the main one, in document order per session */
+  async childFrames(): Promise<FrameContext[]> {
+    const frames: FrameContext[] = [];
+    await this.collectLocalFrames(undefined, frames);
+    for (const [sessionId, info] of this.sessions) {
+      frames.push({ sessionId, frameId: info.targetId, url: info.url });
+      await this.collectLocalFrames(sessionId, frames);
+    }
+    return frames;
+  }
+
+  private async collectLocalFrames(sessionId: string | undefined, out: FrameContext[]): Promise<void> {
+    let tree: CDP.FrameTree;
+    try {
+      ({ frameTree: tree } = await this.requireClient().Page.getFrameTree({}, sessionId));
+    } catch {
+      return;
+    }
+    const oopifIds = new Set([...this.sessions.values()].map((s) => s.targetId));
+    const visit = async (node: CDP.FrameTree): Promise<void> => {
+      for (const child of node.childFrames || []) {
+        // Out-of-process frames are listed here too but are handled via their own session
+        if (oopifIds.has(child.frame.id)) continue;
+        const contextId = await this.isolatedWorld(child.frame.id, sessionId);
+        if (contextId !== undefined) {
+          out.push({ sessionId, contextId, frameId: child.frame.id, url: child.frame.url });
+        }
+        await visit(child);
+      }
+    };
+    await visit(tree);
+  }
+
+  /** Execution context for a frame id found on an <iframe> element in `sessionId` */
+  async contextForFrame(frameId: string, sessionId?: string): Promise<FrameContext | null> {
+    for (const [sid, info] of this.sessions) {
+      if (info.targetId === frameId) return { sessionId: sid, frameId, url: info.url };
+    }
+    const contextId = await this.isolatedWorld(frameId, sessionId);
+    if (contextId === undefined) return null;
+    return { sessionId, contextId, frameId, url: "" };
+  }
+
+  /**
+   * The same frame, but in the page's main world. OOPIF sessions already
+   * evaluate there; a same-process frame whose main world isn't known yet
+   * keeps its isolated world.
+   */
+  mainWorld(ctx: FrameContext): FrameContext {
+    if (ctx.contextId === undefined) return ctx;
+    const contextId = this.mainWorlds.get(`${ctx.sessionId ?? ""}:${ctx.frameId}`);
+    return contextId === undefined ? ctx : { ...ctx, contextId };
+  }
+
+  /**
+   * Evaluate in a frame (or the main frame when `ctx` is undefined). A stale
+   * isolated world — the frame navigated — is recreated once.
+   */
+  async evaluate(
+    ctx: FrameContext | undefined,
+    expression: string,
+    returnByValue: boolean
+  ): Promise<CDP.RemoteObject> {
+    const client = this.requireClient();
+    const run = async () =>
+      (
+        await client.Runtime.evaluate(
+          { expression, contextId: ctx?.contextId, returnByValue },
+          ctx?.sessionId
+        )
+      ).result;
+    try {
+      return await run();
+    } catch (err) {
+      if (!ctx || ctx.contextId === undefined) throw err;
+      this.worlds.delete(`${ctx.sessionId ?? ""}:${ctx.frameId}`);
+      const contextId = await this.isolatedWorld(ctx.frameId, ctx.sessionId);
+      if (contextId === undefined) throw err;
+      ctx.contextId = contextId;
+      return run();
+    }
+  }
+
+  /**
+   * Offset of an OOPIF's viewport inside the tab's viewport. Box models from
+   * an OOPIF session are relative to the iframe, but mouse input goes to the
+   * top-level page.
+   */
+  async frameOffset(sessionId?: string): Promise<{ x: number; y: number }> {
+    if (!sessionId) return { x: 0, y: 0 };
+    const info = this.sessions.get(sessionId);
+    if (!info) return { x: 0, y: 0 };
+    const client = this.requireClient();
+    const { backendNodeId } = await client.DOM.getFrameOwner({ frameId: info.targetId }, info.parentSessionId);
+    const { model } = await client.DOM.getBoxModel({ backendNodeId }, info.parentSessionId);
+    const parent = await this.frameOffset(info.parentSessionId);
+    return { x: parent.x + model.content[0], y: parent.y + model.content[1] };
+  }
+}
@@ -20,9 +20,9 @@ const SYSTEM_PROMPT = `You are a relentless, autonomous AI agent that controls a
    - Try a different CSS selector
    - Try clicking by different text
    - Try scrolling to find the element
-   - Try waiting for the page to load (chrome_wait)
+   - Try waiting for the element or page state you need (chrome_wait_for)
    - Try using chrome_press_key (Tab to focus, Enter to submit)
-   - Try JavaScript execution via run_command with a different approach
+   - Try reading or changing page state directly with chrome_evaluate (if enabled)
    - Re-read the page with chrome_get_page_text to see what changed
 6. **For multi-step tasks (like commenting on multiple posts), keep a mental checklist and work through ALL items.** Don't stop after one.
 
@@ -33,26 +33,45 @@ const SYSTEM_PROMPT = `You are a relentless, autonomous AI agent that controls a
 - **Be concise.** Short status updates, not essays.
 - **Click through pages, don't guess URLs.** Always navigate by clicking links on the current page rather than constructing URLs yourself. URLs you guess will often be wrong.
 - **Read the page before interacting.** Always call chrome_get_page_text before clicking or typing so you know what's available.
-- **After clicking a link or button, wait briefly then re-read the page** to see the new state.
+- **After clicking a link or button, check the "Page changes:" line of the result** — it reports a new URL or title, dialogs, toasts and messages, regions added or removed, and where focus went. Re-read the page only when you need content it doesn't cover. Pass waitFor to chrome_click (e.g. {"urlChanged": true} or {"selector": ".comment-form"}) instead of sleeping.
 
 ## Browser Tools
 
 - **chrome_list_tabs**: See available browser tabs.
 - **chrome_attach**: Attach to a tab (required before other chrome_ tools).
+- **chrome_new_tab / chrome_switch_tab / chrome_close_tab**: Open, switch between and close tabs. When a tool result says "New tab opened" (a popup or target=_blank link), call chrome_switch_tab if the task continues there.
 - **chrome_navigate**: Go to a URL. Only use for top-level navigation (like going to reddit.com). For clicking links within a site, use chrome_click instead.
-- **chrome_get_page_text**: Read visible text and interactive elements. ALWAYS call this before interacting with a page.
-- **chrome_screenshot**: Save a screenshot to disk.
-- **chrome_click**: Click by CSS selector or visible text. If text doesn't work, try a CSS selector. If that doesn't work, scroll and try again.
+- **chrome_get_page_text**: Read the page as Markdown with links and form controls. ALWAYS call this before interacting with a page. Long pages come in pages — read on with page=2, 3… or jump to what you need with query (e.g. query="refund policy").
+- **chrome_extract**: Collect tables, lists or repeated items (search results, product cards) as JSON rows, optionally across pagination, and save them to CSV/JSON with output. Prefer this over chrome_get_page_text when the task is gathering data into a spreadsheet.
+- **chrome_snapshot**: Accessibility tree of the page with a [ref=N] on every interactive element. Prefer this when you need to click or type precisely — pass 'ref=N' as the target of chrome_click / chrome_type. Take a new snapshot after the page navigates; old refs stop working.
+- **chrome_screenshot**: Capture the viewport, the full page (fullPage) or one element (target); you receive the image itself. Use it when text extraction can't tell you what the page looks like (canvas, charts, layout problems). Prefer format 'jpeg' and a smaller maxWidth when detail doesn't matter.
+- **chrome_click**: Click by snapshot ref ('ref=17'), CSS selector, visible text, or 'x,y' coordinates. Uses real mouse events. If text doesn't work, try a CSS selector. If that doesn't work, scroll and try again.
+- **Frames and shadow DOM**: click/type/hover targets are also looked up inside iframes (including cross-origin ones) and open shadow roots. If the same selector exists in several frames, scope it: 'iframe#checkout >>> input[name="card"]' (chain '>>>' for nested frames).
+- **chrome_click_visual**: Click an element described in words ("the blue Play button on the video") by finding it in a screenshot. Use it only when chrome_click can't find the element — canvas UIs, obfuscated markup. You get the screenshot after the click to confirm it worked.
+- **chrome_hover / chrome_double_click / chrome_right_click**: Hover to open hover menus and tooltips, double-click to select or open, right-click for context menus.
+- **chrome_drag**: Drag from a source to a target (sortable lists, sliders, canvas, file-style drop zones).
 - **chrome_type**: Type into inputs, textareas, or contenteditable elements. Works with CSS selectors, placeholder text, name attributes, and aria-labels. For rich text editors (like Reddit's comment box), try targeting '[contenteditable="true"]' or 'div[role="textbox"]' as the selector.
+- **chrome_fill_form**: Fill a whole form in one call — text, selects, checkboxes, radio groups and dates by label. Read the report: fix fields that failed or are invalid before submitting.
+- **chrome_upload_file**: Attach files from the working directory to a file input or drop zone. Never use chrome_type for file inputs.
+- **chrome_wait_for_download**: After clicking a download/export button, call this to get the saved file's path and size, then open it with read_file. A "Download started" note in a tool result means a file is on its way.
+- **chrome_handle_dialog**: Accept or dismiss a JavaScript dialog (alert/confirm/prompt/"Leave site?") that a tool result reports as open. Read the message first — only accept destructive confirms ("Delete…?", "Are you sure…?") when the user's task clearly asks for it. Pass promptText to answer a prompt().
+- **chrome_cookies / chrome_storage**: Inspect or change cookies and localStorage/sessionStorage of the current site (feature flags, consent banners, stale sessions).
+- **chrome_emulate**: Emulate a phone, tablet or 1080p desktop, or set viewport, user agent, locale, timezone, geolocation or dark mode — for responsive-layout and localization checks. Navigate again afterwards so the site sees a new UA/locale.
+- **chrome_network_log**: See the tab's network requests (status, type, timing). Filter with status='error' to find failed API calls; pass requestId to read a response body. Use this when debugging a broken page.
+- **chrome_intercept_add / chrome_intercept_list / chrome_intercept_clear**: Block requests (ads, trackers), fail API calls with a status to test error states, or mock them with a local JSON file. Rules stay active until cleared — clear them when the test is done.
+- **chrome_performance**: When asked why a page is slow, run this first. It reloads the page and ranks the problems (LCP, CLS, long tasks, heavy resources); pass network='fast-3g' and cpuSlowdown=4 to see it as a phone user would. For INP, interact with the page, then call it with reload=false.
+- **chrome_console_logs**: Console messages and uncaught exceptions with stack traces. When a tool result mentions new page errors, read them here before guessing at the cause.
 - **chrome_scroll**: Scroll up/down to find elements that aren't visible.
-- **chrome_press_key**: Press keyboard keys. Very useful for: Tab (move focus), Enter (submit), Escape (close dialogs).
-- **chrome_wait**: Wait for page loads or animations. Use 1000-3000ms typically.
+- **chrome_press_key**: Press keys, chords and sequences. Very useful for: Tab (move focus), Enter (submit), Escape (close dialogs), Shift+Tab, Mod+A (select all), PageDown, or 'ArrowDown Enter' to pick from a dropdown.
+- **chrome_evaluate**: Run JavaScript in the page (or one iframe with frame) and get the result as JSON — for app state, computed values or page APIs no other tool reaches. It may be disabled or declined by the user; if so, carry on with the other tools. Never use it to click or type.
+- **chrome_wait_for**: Wait until an element appears/disappears, text appears, the URL changes or matches, or the network is idle. Returns an error on timeout, so you know the page did not reach that state.
+- **chrome_wait**: Fixed sleep. Only use it when there is no condition to wait for (e.g. an animation).
 
 ### Browser Tips
 - **REDDIT: ALWAYS use old.reddit.com** instead of www.reddit.com. The new Reddit UI breaks comment submission (redirects to submit page). On old.reddit.com: click "reply" link → type in the textarea → click "save" link. This flow works reliably.
 - **NEVER construct Reddit post URLs yourself.** Reddit post IDs are NOT unique to a subreddit — the same ID can point to a completely different post. ALWAYS click links on the page to navigate.
 - Reddit, Google Docs, Slack, etc. use **contenteditable divs** not regular inputs. Target them with: '[contenteditable="true"]', 'div[role="textbox"]', or '.ProseMirror'.
-- If you can't find a comment/reply box, try: clicking a "Reply" or "Comment" button first, then waiting 1-2 seconds, then reading the page again.
+- If you can't find a comment/reply box, try: clicking a "Reply" or "Comment" button first, then chrome_wait_for the box's selector, then reading the page again.
 - If chrome_type doesn't work on a rich text editor, try chrome_click on the editor area first to focus it, then chrome_type.
 - After typing in a comment box, look for a submit/post/reply button and click it.
 - Some sites need you to scroll down to see all content or to find interactive elements.
@@ -73,9 +92,19 @@ const SYSTEM_PROMPT = `You are a relentless, autonomous AI agent that controls a
 - Start by listing files to understand project structure.
 - Run tests after making changes.`;
 
+const LOCATE_PROMPT = `You locate UI elements in screenshots of a web page.
+Find the element matching this description: `;
+
+const LOCATE_FORMAT = `
+Reply with JSON only: {"found": true, "x": <0-1000>, "y": <0-1000>} where x and y are the
+center of the element as thousandths of the image width and height (0,0 = top-left).
+If no element clearly matches, reply {"found": false}.`;
+
 export class GeminiClient {
   private genAI: GoogleGenerativeAI;
   private model: GenerativeModel;
+  /** Tool-less model for one-shot vision questions (chrome_click_visual) */
+  private visionModel: GenerativeModel;
 
   constructor(tools: FunctionDeclaration[]) {
     this.genAI = new GoogleGenerativeAI(config.geminiApiKey);
@@ -84,6 +113,32 @@ export class GeminiClient {
       systemInstruction: SYSTEM_PROMPT,
       tools: [{ functionDeclarations: tools }],
     });
+    this.visionModel = this.genAI.getGenerativeModel({
+      model: config.geminiModel,
+      generationConfig: { responseMimeType: "application/json", temperature: 0 },
+    });
+  }
+
+  /**
+   * Ask the model where a described element is in a screenshot. Returns its
+   * center in thousandths of the image size, or null if it isn't visible.
+   */
+  async locateElement(
+    image: { mimeType: string; data: string },
+    description: string
+  ): Promise<{ x: number; y: number } | null> {
+    const result = await this.visionModel.generateContent([
+      { text: LOCATE_PROMPT + JSON.stringify(description) + LOCATE_FORMAT },
+      { inlineData: image },
+    ]);
+    try {
+      const parsed = JSON.parse(result.response.text());
+      if (!parsed.found || typeof parsed.x !== "number" || typeof parsed.y !== "number") return null;
+      const clamp = (v: number) => Math.min(1000, Math.max(0, v));
+      return { x: clamp(parsed.x), y: clamp(parsed.y) };
+    } catch {
+      return null;
+    }
   }
 
   /**
@@ -107,10 +162,12 @@ export class GeminiClient {
 
   /**
    * Send function results back to the model and get next response.
+   * Images a tool produced (screenshots) follow the function responses as
+   * inline image parts so the model can actually see them.
    */
   async sendFunctionResults(
     chat: ChatSession,
-    results: Array<{ name: string; response: Record<string, any> }>
+    results: FunctionResult[]
   ): Promise<GeminiResponse> {
     const functionResponseParts: Part[] = results.map((r) => ({
       functionResponse: {
@@ -118,8 +175,11 @@ export class GeminiClient {
         response: r.response,
       },
     }));
+    const imageParts: Part[] = results.flatMap((r) =>
+      (r.images || []).map((img) => ({ inlineData: { mimeType: img.mimeType, data: img.data } }))
+    );
 
-    const result = await chat.sendMessage(functionResponseParts);
+    const result = await chat.sendMessage([...functionResponseParts, ...imageParts]);
     return this.parseResponse(result);
   }
 
@@ -180,6 +240,13 @@ export class GeminiClient {
   }
 }
 
+/** One tool's output, plus any images it captured */
+export interface FunctionResult {
+  name: string;
+  response: Record<string, any>;
+  images?: Array<{ mimeType: string; data: string }>;
+}
+
 export type GeminiResponse =
   | { type: "text"; text: string }
   | {
@@ -0,0 +1,162 @@
+import { readFileSync } from "fs";
+import { extname } from "path";
+import type CDP from "chrome-remote-interface";
+import { globToRegExp } from "./network.js";
+
+/**
+ * block: fail the request as if an ad blocker stopped it.
+ * fail:  answer with an HTTP error status.
+ * mock:  answer with the contents of a local file.
+ */
+export type InterceptAction = "block" | "fail" | "mock";
+
+export interface InterceptRule {
+  id: number;
+  /** Substring or glob (`*`) matched against the request URL */
+  urlPattern: string;
+  /** HTTP method to match; any method when unset */
+  method?: string;
+  action: InterceptAction;
+  /** Response status for fail/mock */
+  status?: number;
+  /** Absolute path of the file served by mock */
+  file?: string;
+  /** Requests this rule has handled */
+  hits: number;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".json": "application/json",
+  ".html": "text/html; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".js": "application/javascript",
+  ".css": "text/css",
+  ".xml": "application/xml",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".gif": "image/gif",
+};
+
+/** `#2 POST /api/checkout → fail 503 (4 hits)` */
+export function formatRule(rule: InterceptRule): string {
+  const what =
+    rule.action === "mock"
+      ? `mock ${rule.status ?? 200} from ${rule.file}`
+      : rule.action === "fail"
+        ? `fail ${rule.status ?? 500}`
+        : "block";
+  return `#${rule.id} ${rule.method ?? "ANY"} ${rule.urlPattern} → ${what} (${rule.hits} hit${rule.hits === 1 ? "" : "s"})`;
+}
+
+/**
+ * Applies block/fail/mock rules to the attached tab's requests through the
+ * Fetch domain. Interception is only enabled while there are rules, so an
+ * idle interceptor costs nothing. Rules outlive connections.
+ */
+export class Interceptor {
+  private rules: InterceptRule[] = [];
+  private nextId = 1;
+  private client: CDP.Client | null = null;
+
+  /** Subscribe to paused requests on a (re)connected client */
+  async bind(client: CDP.Client): Promise<void> {
+    this.client = client;
+    client.Fetch.requestPaused((params) => {
+      this.handle(client, params).catch(() => {
+        // The request was cancelled or the tab navigated away
+      });
+    });
+    await this.sync();
+  }
+
+  /** Turn Fetch interception on or off to match whether any rules exist */
+  private async sync(): Promise<void> {
+    if (!this.client) return;
+    if (this.rules.length > 0) {
+      await this.client.Fetch.enable({ patterns: [{ urlPattern: "*", requestStage: "Request" }] });
+    } else {
+      await this.client.Fetch.disable().catch(() => {});
+    }
+  }
+
+  private match(url: string, method: string): InterceptRule | undefined {
+    return this.rules.find(
+      (r) =>
+        (!r.method || r.method === method.toUpperCase()) &&
+        globToRegExp(r.urlPattern).test(url)
+    );
+  }
+
+  private async handle(
+    client: CDP.Client,
+    params: { requestId: string; request: { url: string; method: string } }
+  ): Promise<void> {
+    const { requestId, request } = params;
+    const rule = this.match(request.url, request.method);
+    if (!rule) {
+      await client.Fetch.continueRequest({ requestId });
+      return;
+    }
+    rule.hits++;
+
+    if (rule.action === "block") {
+      await client.Fetch.failRequest({ requestId, errorReason: "BlockedByClient" });
+      return;
+    }
+
+    let body: Buffer;
+    let contentType = "application/json";
+    if (rule.action === "mock" && rule.file) {
+      try {
+        body = readFileSync(rule.file);
+        contentType = CONTENT_TYPES[extname(rule.file).toLowerCase()] || "application/octet-stream";
+      } catch (err: any) {
+        body = Buffer.from(JSON.stringify({ error: `mock file unreadable: ${err.message}` }));
+      }
+    } else {
+      body = Buffer.from(JSON.stringify({ error: `Intercepted by rule #${rule.id}` }));
+    }
+
+    await client.Fetch.fulfillRequest({
+      requestId,
+      responseCode: rule.status ?? (rule.action === "mock" ? 200 : 500),
+      responseHeaders: [
+        { name: "Content-Type", value: contentType },
+        { name: "Access-Control-Allow-Origin", value: "*" },
+      ],
+      body: body.toString("base64"),
+    });
+  }
+
+  async add(rule: Omit<InterceptRule, "id" | "hits">): Promise<InterceptRule> {
+    const full: InterceptRule = {
+      ...rule,
+      method: rule.method?.toUpperCase(),
+      id: this.nextId++,
+      hits: 0,
+    };
+    this.rules.push(full);
+    await this.sync();
+    return full;
+  }
+
+  list(): InterceptRule[] {
+    return [...this.rules];
+  }
+
+  /** Remove one rule by id, or all of them. Returns how many were removed. */
+  async clear(id?: number): Promise<number> {
+    const before = this.rules.length;
+    this.rules = id === undefined ? [] : this.rules.filter((r) => r.id !== id);
+    await this.sync();
+    return before - this.rules.length;
+  }
+
+  /** Replace all rules, e.g. from a resumed session */
+  async restore(rules: InterceptRule[]): Promise<void> {
+    this.rules = rules.map((r) => ({ ...r, hits: 0 }));
+    this.nextId = Math.max(0, ...rules.map((r) => r.id)) + 1;
+    await this.sync();
+  }
+}
@@ -0,0 +1,229 @@
+/** What CDP's Input.dispatchKeyEvent needs to reproduce a physical key */
+export interface KeyDefinition {
+  key: string;
+  code: string;
+  keyCode: number;
+  /** Character the key inserts, if any */
+  text?: string;
+  /** 1 = left, 2 = right, 3 = numpad */
+  location?: number;
+}
+
+/** A key plus the modifiers held while pressing it */
+export interface KeyChord {
+  modifiers: number;
+  key: KeyDefinition;
+  /** Label for results, e.g. "Ctrl+Shift+K" */
+  label: string;
+}
+
+/** CDP modifier bits: Alt=1, Ctrl=2, Meta/Cmd=4, Shift=8 */
+export const MODIFIER_BITS: Record<string, number> = {
+  alt: 1,
+  option: 1,
+  ctrl: 2,
+  control: 2,
+  meta: 4,
+  cmd: 4,
+  command: 4,
+  win: 4,
+  super: 4,
+  shift: 8,
+};
+
+/** Ctrl, or Cmd on macOS — for shortcuts like Mod+A that differ by platform */
+const MOD_BIT = process.platform === "darwin" ? 4 : 2;
+
+/** Parse "Ctrl+Shift" / "ctrl,shift" into a CDP modifier bitmask */
+export function parseModifiers(spec?: string): number {
+  if (!spec) return 0;
+  let bits = 0;
+  for (const part of spec.split(/[+,\s]+/)) {
+    const name = part.toLowerCase();
+    const bit = name === "mod" ? MOD_BIT : MODIFIER_BITS[name];
+    if (bit) bits |= bit;
+  }
+  return bits;
+}
+
+const MODIFIER_KEYS: Array<{ bit: number; key: KeyDefinition }> = [
+  { bit: 1, key: { key: "Alt", code: "AltLeft", keyCode: 18, location: 1 } },
+  { bit: 2, key: { key: "Control", code: "ControlLeft", keyCode: 17, location: 1 } },
+  { bit: 4, key: { key: "Meta", code: "MetaLeft", keyCode: 91, location: 1 } },
+  { bit: 8, key: { key: "Shift", code: "ShiftLeft", keyCode: 16, location: 1 } },
+];
+
+/** Named (non-character) keys, keyed by lowercase name */
+const NAMED_KEYS: Record<string, KeyDefinition> = {
+  enter: { key: "Enter", code: "Enter", keyCode: 13, text: "\r" },
+  tab: { key: "Tab", code: "Tab", keyCode: 9 },
+  escape: { key: "Escape", code: "Escape", keyCode: 27 },
+  backspace: { key: "Backspace", code: "Backspace", keyCode: 8 },
+  delete: { key: "Delete", code: "Delete", keyCode: 46 },
+  insert: { key: "Insert", code: "Insert", keyCode: 45 },
+  space: { key: " ", code: "Space", keyCode: 32, text: " " },
+  home: { key: "Home", code: "Home", keyCode: 36 },
+  end: { key: "End", code: "End", keyCode: 35 },
+  pageup: { key: "PageUp", code: "PageUp", keyCode: 33 },
+  pagedown: { key: "PageDown", code: "PageDown", keyCode: 34 },
+  arrowup: { key: "ArrowUp", code: "ArrowUp", keyCode: 38 },
+  arrowdown: { key: "ArrowDown", code: "ArrowDown", keyCode: 40 },
+  arrowleft: { key: "ArrowLeft", code: "ArrowLeft", keyCode: 37 },
+  arrowright: { key: "ArrowRight", code: "ArrowRight", keyCode: 39 },
+  capslock: { key: "CapsLock", code: "CapsLock", keyCode: 20 },
+  contextmenu: { key: "ContextMenu", code: "ContextMenu", keyCode: 93 },
+  pause: { key: "Pause", code: "Pause", keyCode: 19 },
+  printscreen: { key: "PrintScreen", code: "PrintScreen", keyCode: 44 },
+  numlock: { key: "NumLock", code: "NumLock", keyCode: 144 },
+  scrolllock: { key: "ScrollLock", code: "ScrollLock", keyCode: 145 },
+  alt: MODIFIER_KEYS[0].key,
+  control: MODIFIER_KEYS[1].key,
+  meta: MODIFIER_KEYS[2].key,
+  shift: MODIFIER_KEYS[3].key,
+};
+
+for (let i = 1; i <= 24; i++) {
+  NAMED_KEYS[`f${i}`] = { key: `F${i}`, code: `F${i}`, keyCode: 111 + i };
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  return: "enter",
+  esc: "escape",
+  del: "delete",
+  ins: "insert",
+  spacebar: "space",
+  pgup: "pageup",
+  pgdn: "pagedown",
+  pagedn: "pagedown",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+  ctrl: "control",
+  option: "alt",
+  cmd: "meta",
+  command: "meta",
+  win: "meta",
+  super: "meta",
+  menu: "contextmenu",
+  plus: "+",
+  minus: "-",
+};
+
+/** US-layout punctuation: unshifted character, shifted character, code, keyCode */
+const PUNCTUATION: Array<[string, string, string, number]> = [
+  ["`", "~", "Backquote", 192],
+  ["-", "_", "Minus", 189],
+  ["=", "+", "Equal", 187],
+  ["[", "{", "BracketLeft", 219],
+  ["]", "}", "BracketRight", 221],
+  ["\\", "|", "Backslash", 220],
+  [";", ":", "Semicolon", 186],
+  ["'", '"', "Quote", 222],
+  [",", "<", "Comma", 188],
+  [".", ">", "Period", 190],
+  ["/", "?", "Slash", 191],
+];
+const SHIFTED_DIGITS = ")!@#$%^&*(";
+
+/** Character → key and whether Shift is needed to produce it */
+const CHARACTER_KEYS = new Map<string, { key: KeyDefinition; shift: boolean }>();
+for (let i = 0; i < 26; i++) {
+  const lower = String.fromCharCode(97 + i);
+  const upper = lower.toUpperCase();
+  const code = `Key${upper}`;
+  CHARACTER_KEYS.set(lower, { key: { key: lower, code, keyCode: 65 + i, text: lower }, shift: false });
+  CHARACTER_KEYS.set(upper, { key: { key: upper, code, keyCode: 65 + i, text: upper }, shift: true });
+}
+for (let i = 0; i < 10; i++) {
+  const digit = String(i);
+  const code = `Digit${i}`;
+  CHARACTER_KEYS.set(digit, { key: { key: digit, code, keyCode: 48 + i, text: digit }, shift: false });
+  const shifted = SHIFTED_DIGITS[i];
+  CHARACTER_KEYS.set(shifted, { key: { key: shifted, code, keyCode: 48 + i, text: shifted }, shift: true });
+}
+for (const [plain, shifted, code, keyCode] of PUNCTUATION) {
+  CHARACTER_KEYS.set(plain, { key: { key: plain, code, keyCode, text: plain }, shift: false });
+  CHARACTER_KEYS.set(shifted, { key: { key: shifted, code, keyCode, text: shifted }, shift: true });
+}
+
+/** Shifted character per key code, so Shift+2 types "@" and Shift+a types "A" */
+const SHIFTED_BY_CODE = new Map<string, KeyDefinition>(
+  [...CHARACTER_KEYS.values()].filter((c) => c.shift).map((c) => [c.key.code, c.key])
+);
+CHARACTER_KEYS.set(" ", { key: NAMED_KEYS.space, shift: false });
+CHARACTER_KEYS.set("\n", { key: NAMED_KEYS.enter, shift: false });
+
+/**
+ * The key that types `char` on a US layout, or null for characters with no
+ * key of their own (emoji, CJK, accented letters) — those need Input.insertText.
+ */
+export function keyForCharacter(char: string): { key: KeyDefinition; shift: boolean } | null {
+  return CHARACTER_KEYS.get(char) ?? null;
+}
+
+/** Look up a key by name ("PageDown", "esc", "F5") or single character */
+function lookupKey(name: string): { key: KeyDefinition; shift: boolean } | null {
+  const lower = name.toLowerCase();
+  const named = NAMED_KEYS[KEY_ALIASES[lower] ?? lower];
+  if (named) return { key: named, shift: false };
+  const char = KEY_ALIASES[lower] ?? name;
+  // A letter in a chord means the key, not the capital: Ctrl+K is Ctrl+k
+  return keyForCharacter(char.length === 1 && /[A-Z]/.test(char) ? char.toLowerCase() : char);
+}
+
+/**
+ * Parse a key spec into chords: `Enter`, `Ctrl+Shift+K`, `Mod+A` (Cmd on
+ * macOS, Ctrl elsewhere), `Ctrl++`, or several separated by spaces —
+ * `Tab Tab Enter`. Throws on unknown key names.
+ */
+export function parseKeys(spec: string): KeyChord[] {
+  const chords: KeyChord[] = [];
+  for (const token of spec.trim().split(/\s+/).filter(Boolean)) {
+    // "+" on its own or at the end of a chord is the plus key
+    const parts = token === "+" ? ["+"] : token.endsWith("++") ? [...token.slice(0, -2).split("+"), "+"] : token.split("+");
+    const keyName = parts.pop() || "";
+    let modifiers = 0;
+    for (const part of parts) {
+      const name = part.toLowerCase();
+      const bit = name === "mod" ? MOD_BIT : MODIFIER_BITS[name];
+      if (!bit) throw new Error(`Unknown modifier "${part}" in "${token}" — use Ctrl, Shift, Alt, Meta/Cmd or Mod.`);
+      modifiers |= bit;
+    }
+    const found = lookupKey(keyName);
+    if (!found) throw new Error(`Unknown key "${keyName}" in "${token}".`);
+    if (found.shift) modifiers |= MODIFIER_BITS.shift;
+    const key = modifiers & MODIFIER_BITS.shift ? SHIFTED_BY_CODE.get(found.key.code) ?? found.key : found.key;
+    chords.push({ modifiers, key, label: token });
+  }
+  if (chords.length === 0) throw new Error("No key given.");
+  return chords;
+}
+
+/** Modifier keys to hold down, in press order, for a modifier bitmask */
+export function modifierKeys(modifiers: number): Array<{ bit: number; key: KeyDefinition }> {
+  return MODIFIER_KEYS.filter((m) => (modifiers & m.bit) !== 0);
+}
+
+/**
+ * Editing commands for shortcuts macOS Chrome only runs when told explicitly —
+ * synthesized Cmd+A etc. don't reach the native menu there.
+ */
+export function editingCommands(chord: KeyChord): string[] {
+  if (process.platform !== "darwin" || !(chord.modifiers & MODIFIER_BITS.meta)) return [];
+  const shift = chord.modifiers & MODIFIER_BITS.shift;
+  switch (chord.key.code) {
+    case "KeyA":
+      return ["selectAll"];
+    case "KeyC":
+      return ["copy"];
+    case "KeyX":
+      return ["cut"];
+    case "KeyV":
+      return ["paste"];
+    case "KeyZ":
+      return [shift ? "redo" : "undo"];
+    default:
+      return [];
+  }
+}
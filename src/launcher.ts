@@ -0,0 +1,81 @@
+import { existsSync, mkdtempSync, mkdirSync } from "fs";
+import { isAbsolute, join, resolve } from "path";
+import { homedir, tmpdir } from "os";
+import { config } from "./config.js";
+
+/** How to start Chrome. Unset fields fall back to config (CHROME_* env vars). */
+export interface LaunchOptions {
+  /** Run with --headless=new (no window) */
+  headless?: boolean;
+  /**
+   * "default" for the user's own profile, "temp" for a throwaway profile
+   * deleted on exit, a name for a persistent profile under
+   * ~/.gemini-chrome/profiles/, or a path to a user-data-dir
+   */
+  profile?: string;
+  /** "1280x800" */
+  windowSize?: string;
+  /** Proxy server, e.g. "http://proxy:3128" or "socks5://127.0.0.1:1080" */
+  proxy?: string;
+  /** Extra command-line flags passed through as-is */
+  flags?: string[];
+}
+
+export interface ResolvedLaunch {
+  args: string[];
+  headless: boolean;
+  /** user-data-dir in use, or null for the default profile */
+  userDataDir: string | null;
+  /** True if the user-data-dir is a temp dir to delete after Chrome exits */
+  temporary: boolean;
+}
+
+const CHROME_PATHS = [
+  "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+  "/usr/bin/google-chrome",
+  "/usr/bin/google-chrome-stable",
+  "/usr/bin/chromium-browser",
+  "/usr/bin/chromium",
+];
+
+/** CHROME_PATH if set, else the first standard install location that exists */
+export function findChrome(): string | null {
+  if (config.chromePath) return existsSync(config.chromePath) ? config.chromePath : null;
+  return CHROME_PATHS.find((p) => existsSync(p)) ?? null;
+}
+
+function profileDir(profile: string): { dir: string | null; temporary: boolean } {
+  if (!profile || profile === "default") return { dir: null, temporary: false };
+  if (profile === "temp") {
+    return { dir: mkdtempSync(join(tmpdir(), "gemini-chrome-")), temporary: true };
+  }
+  const dir =
+    isAbsolute(profile) || profile.startsWith(".")
+      ? resolve(profile)
+      : resolve(homedir(), ".gemini-chrome", "profiles", profile);
+  mkdirSync(dir, { recursive: true });
+  return { dir, temporary: false };
+}
+
+/** Merge options over config and build Chrome's command line */
+export function resolveLaunch(options: LaunchOptions = {}): ResolvedLaunch {
+  const headless = options.headless ?? config.chromeHeadless;
+  const windowSize = options.windowSize || config.chromeWindowSize;
+  const proxy = options.proxy || config.chromeProxy;
+  // Validate before creating the profile, so a bad option doesn't leave a temp dir behind
+  const size = windowSize ? windowSize.match(/^(\d+)\s*[x,]\s*(\d+)$/i) : null;
+  if (windowSize && !size) throw new Error(`Invalid window size "${windowSize}" — use WIDTHxHEIGHT, e.g. 1280x800.`);
+  const { dir, temporary } = profileDir(options.profile || config.chromeProfile);
+
+  const args = [`--remote-debugging-port=${config.cdpPort}`];
+  if (headless) args.push("--headless=new");
+  if (dir) {
+    // A fresh profile would otherwise stop on first-run and default-browser prompts
+    args.push(`--user-data-dir=${dir}`, "--no-first-run", "--no-default-browser-check");
+  }
+  if (size) args.push(`--window-size=${size[1]},${size[2]}`);
+  if (proxy) args.push(`--proxy-server=${proxy}`);
+  args.push(...config.chromeFlags, ...(options.flags || []));
+
+  return { args, headless, userDataDir: dir, temporary };
+}
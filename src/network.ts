@@ -0,0 +1,319 @@
+import type CDP from "chrome-remote-interface";
+
+export interface NetworkEntry {
+  /** Short sequential id shown to the model */
+  id: number;
+  requestId: string;
+  url: string;
+  method: string;
+  resourceType: string;
+  requestHeaders: Record<string, string>;
+  postData?: string;
+  status?: number;
+  statusText?: string;
+  mimeType?: string;
+  protocol?: string;
+  responseHeaders?: Record<string, string>;
+  redirectURL?: string;
+  /** Wall-clock start, ISO string */
+  startedDateTime: string;
+  /** Monotonic CDP timestamps (seconds) */
+  startTime: number;
+  responseTime?: number;
+  endTime?: number;
+  encodedDataLength?: number;
+  errorText?: string;
+  finished: boolean;
+}
+
+export interface NetworkFilter {
+  /** Substring or glob (`*`) matched against the URL */
+  urlPattern?: string;
+  /** Exact code ("404"), class ("4xx"), "error" (>= 400 or failed) or "failed" */
+  status?: string;
+  /** CDP resource type: XHR, Fetch, Document, Script, Image, … */
+  resourceType?: string;
+  limit?: number;
+}
+
+const MAX_ENTRIES = 1000;
+
+/** Convert a `*` glob to a RegExp. Plain strings match as substrings. */
+export function globToRegExp(pattern: string): RegExp {
+  if (!pattern.includes("*")) {
+    return new RegExp(pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&"), "i");
+  }
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+function matchesStatus(entry: NetworkEntry, spec: string): boolean {
+  const s = spec.trim().toLowerCase();
+  if (s === "failed") return !!entry.errorText;
+  if (s === "error") return !!entry.errorText || (entry.status ?? 0) >= 400;
+  const cls = s.match(/^([1-5])xx$/);
+  if (cls) return Math.floor((entry.status ?? 0) / 100) === Number(cls[1]);
+  return entry.status === parseInt(s, 10);
+}
+
+/** One-line summary of an entry for tool results */
+export function formatEntry(entry: NetworkEntry): string {
+  const status = entry.errorText
+    ? `FAILED (${entry.errorText})`
+    : entry.status !== undefined
+      ? String(entry.status)
+      : "pending";
+  const ms =
+    entry.endTime !== undefined ? ` ${Math.round((entry.endTime - entry.startTime) * 1000)}ms` : "";
+  const size =
+    entry.encodedDataLength !== undefined
+      ? ` ${(entry.encodedDataLength / 1024).toFixed(1)}KB`
+      : "";
+  return `#${entry.id} ${entry.method} ${status} ${entry.resourceType}${size}${ms} ${entry.url.slice(0, 200)}`;
+}
+
+/**
+ * Records request/response metadata for one tab from CDP Network events.
+ * Keeps a rolling window of the most recent MAX_ENTRIES requests.
+ */
+export class NetworkRecorder {
+  private entries: NetworkEntry[] = [];
+  private pending = new Map<string, NetworkEntry>();
+  private nextId = 1;
+  private client: CDP.Client | null = null;
+
+  /** Subscribe to Network events on a (re)connected client for this tab */
+  bind(client: CDP.Client): void {
+    this.client = client;
+    // Requests in flight on the old connection will never finish
+    this.pending.clear();
+
+    client.Network.requestWillBeSent((params) => {
+      const previous = this.pending.get(params.requestId);
+      if (previous && params.redirectResponse) {
+        // Redirects reuse the requestId — close out the hop that redirected
+        this.applyResponse(previous, params.redirectResponse, params.timestamp);
+        previous.redirectURL = params.request.url;
+        previous.endTime = params.timestamp;
+        previous.finished = true;
+      }
+
+      const entry: NetworkEntry = {
+        id: this.nextId++,
+        requestId: params.requestId,
+        url: params.request.url,
+        method: params.request.method,
+        resourceType: params.type || "Other",
+        requestHeaders: params.request.headers || {},
+        postData: params.request.postData,
+        startedDateTime: new Date(params.wallTime * 1000).toISOString(),
+        startTime: params.timestamp,
+        finished: false,
+      };
+      this.pending.set(params.requestId, entry);
+      this.entries.push(entry);
+      if (this.entries.length > MAX_ENTRIES) {
+        for (const dropped of this.entries.splice(0, this.entries.length - MAX_ENTRIES)) {
+          if (this.pending.get(dropped.requestId) === dropped) this.pending.delete(dropped.requestId);
+        }
+      }
+    });
+
+    client.Network.responseReceived((params) => {
+      const entry = this.pending.get(params.requestId);
+      if (!entry) return;
+      entry.resourceType = params.type || entry.resourceType;
+      this.applyResponse(entry, params.response, params.timestamp);
+    });
+
+    client.Network.loadingFinished((params) => {
+      const entry = this.pending.get(params.requestId);
+      if (!entry) return;
+      entry.endTime = params.timestamp;
+      entry.encodedDataLength = params.encodedDataLength;
+      entry.finished = true;
+      this.pending.delete(params.requestId);
+    });
+
+    client.Network.loadingFailed((params) => {
+      const entry = this.pending.get(params.requestId);
+      if (!entry) return;
+      entry.endTime = params.timestamp;
+      entry.errorText = params.blockedReason
+        ? `blocked: ${params.blockedReason}`
+        : params.canceled
+          ? "canceled"
+          : params.errorText;
+      entry.finished = true;
+      this.pending.delete(params.requestId);
+    });
+  }
+
+  private applyResponse(entry: NetworkEntry, response: CDP.NetworkResponse, timestamp: number): void {
+    entry.status = response.status;
+    entry.statusText = response.statusText;
+    entry.mimeType = response.mimeType;
+    entry.protocol = response.protocol;
+    entry.responseHeaders = response.headers || {};
+    entry.responseTime = timestamp;
+  }
+
+  /** Entries matching a filter, oldest first (the newest `limit` are kept) */
+  list(filter: NetworkFilter = {}): NetworkEntry[] {
+    const urlRe = filter.urlPattern ? globToRegExp(filter.urlPattern) : null;
+    const type = filter.resourceType?.toLowerCase();
+    const matched = this.entries.filter(
+      (e) =>
+        (!urlRe || urlRe.test(e.url)) &&
+        (!type || e.resourceType.toLowerCase() === type) &&
+        (!filter.status || matchesStatus(e, filter.status))
+    );
+    return filter.limit ? matched.slice(-filter.limit) : matched;
+  }
+
+  get(id: number): NetworkEntry | undefined {
+    return this.entries.find((e) => e.id === id);
+  }
+
+  /**
+   * Requests still in flight, ignoring ones pending longer than
+   * `ignoreOlderThanMs` (long-polls and streams never finish).
+   */
+  inflight(ignoreOlderThanMs = 10000): number {
+    const cutoff = Date.now() - ignoreOlderThanMs;
+    let count = 0;
+    for (const entry of this.pending.values()) {
+      if (Date.parse(entry.startedDateTime) >= cutoff) count++;
+    }
+    return count;
+  }
+
+  /** Total requests seen, including ones rolled out of the window */
+  get totalSeen(): number {
+    return this.nextId - 1;
+  }
+
+  /**
+   * Fetch a response body. Only works while the tab's connection that saw the
+   * request is alive and Chrome still has the body buffered. Redirect hops
+   * share their requestId with the final request, so they have no body of
+   * their own to fetch.
+   */
+  async body(entry: NetworkEntry): Promise<{ body: string; base64Encoded: boolean }> {
+    if (entry.redirectURL) throw new Error(`This response redirected to ${entry.redirectURL} and has no body of its own.`);
+    if (!this.client) throw new Error("Not connected to the tab that made this request.");
+    return this.client.Network.getResponseBody({ requestId: entry.requestId });
+  }
+}
+
+// ─── HAR export ──────────────────────────────────────────────────────────────
+
+function toHarHeaders(headers: Record<string, string> = {}): Array<{ name: string; value: string }> {
+  // CDP joins repeated headers with "\n"
+  return Object.entries(headers).flatMap(([name, value]) =>
+    String(value)
+      .split("\n")
+      .map((v) => ({ name, value: v }))
+  );
+}
+
+function toHarQuery(url: string): Array<{ name: string; value: string }> {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function httpVersion(protocol?: string): string {
+  if (!protocol) return "HTTP/1.1";
+  if (protocol === "h2") return "HTTP/2";
+  if (protocol === "h3") return "HTTP/3";
+  return protocol.toUpperCase();
+}
+
+/**
+ * Build a HAR 1.2 log. `bodies` optionally maps entry id → response body
+ * (base64 bodies are marked with `encoding: "base64"` per the spec).
+ */
+export function toHar(
+  entries: NetworkEntry[],
+  page: { title: string; url: string },
+  bodies: Map<number, { body: string; base64Encoded: boolean }> = new Map()
+): object {
+  const pageId = "page_1";
+  const first = entries[0];
+
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "gemini-in-chrome", version: "1.0.0" },
+      pages: [
+        {
+          startedDateTime: first?.startedDateTime ?? new Date().toISOString(),
+          id: pageId,
+          title: page.title || page.url,
+          pageTimings: {},
+        },
+      ],
+      entries: entries.map((e) => {
+        const total = e.endTime !== undefined ? (e.endTime - e.startTime) * 1000 : -1;
+        const wait = e.responseTime !== undefined ? (e.responseTime - e.startTime) * 1000 : -1;
+        const receive = total >= 0 && wait >= 0 ? total - wait : -1;
+        const body = bodies.get(e.id);
+        const requestContentType =
+          Object.entries(e.requestHeaders).find(([k]) => k.toLowerCase() === "content-type")?.[1] || "";
+
+        return {
+          pageref: pageId,
+          startedDateTime: e.startedDateTime,
+          time: Math.max(total, 0),
+          request: {
+            method: e.method,
+            url: e.url,
+            httpVersion: httpVersion(e.protocol),
+            cookies: [],
+            headers: toHarHeaders(e.requestHeaders),
+            queryString: toHarQuery(e.url),
+            ...(e.postData !== undefined
+              ? { postData: { mimeType: requestContentType, text: e.postData } }
+              : {}),
+            headersSize: -1,
+            bodySize: e.postData !== undefined ? Buffer.byteLength(e.postData) : 0,
+          },
+          response: {
+            status: e.status ?? 0,
+            statusText: e.errorText ?? e.statusText ?? "",
+            httpVersion: httpVersion(e.protocol),
+            cookies: [],
+            headers: toHarHeaders(e.responseHeaders),
+            content: {
+              size: e.encodedDataLength ?? -1,
+              mimeType: e.mimeType || "x-unknown",
+              ...(body
+                ? { text: body.body, ...(body.base64Encoded ? { encoding: "base64" } : {}) }
+                : {}),
+            },
+            redirectURL: e.redirectURL || "",
+            headersSize: -1,
+            bodySize: e.encodedDataLength ?? -1,
+          },
+          cache: {},
+          timings: {
+            blocked: -1,
+            dns: -1,
+            connect: -1,
+            send: 0,
+            wait: Math.max(wait, 0),
+            receive: Math.max(receive, 0),
+          },
+          _resourceType: e.resourceType.toLowerCase(),
+          ...(e.errorText ? { _error: e.errorText } : {}),
+        };
+      }),
+    },
+  };
+}
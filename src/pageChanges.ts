@@ -0,0 +1,182 @@
+/** What the page looks like at one moment, as far as an action summary cares */
+export interface PageState {
+  url: string;
+  title: string;
+  /** Focused element, e.g. `textbox "Email"`, or null when nothing is focused */
+  focus: string | null;
+  /** Visible modal dialogs, e.g. `dialog "Sign in"` */
+  dialogs: string[];
+  /** Text of visible alerts, toasts and status messages */
+  alerts: string[];
+  /** Visible landmark regions, e.g. `navigation "Filters"` */
+  landmarks: string[];
+}
+
+/** What CHANGES_END_JS returns */
+export interface ChangeObservation {
+  state: PageState;
+  /** Alert/toast text seen by the observer, including messages already gone again */
+  alerts: string[];
+  /** Element nodes added and removed; null when this is a new document */
+  added: number | null;
+  removed: number | null;
+}
+
+/** In-page helpers shared by the start and end scripts */
+const STATE_JS = `
+  const DIALOGS = 'dialog[open], [role="dialog"], [role="alertdialog"], [aria-modal="true"]';
+  const ALERTS = '[role="alert"], [role="status"], [aria-live="assertive"], [aria-live="polite"], ' +
+    '[class*="toast" i], [class*="snackbar" i], [class*="notification" i]';
+  const LANDMARKS = 'main, nav, aside, header, footer, form[aria-label], form[aria-labelledby], ' +
+    'section[aria-label], section[aria-labelledby], [role="main"], [role="navigation"], [role="complementary"], ' +
+    '[role="banner"], [role="contentinfo"], [role="search"], [role="region"], [role="form"]';
+  const IMPLICIT_ROLES = { MAIN: 'main', NAV: 'navigation', ASIDE: 'complementary', HEADER: 'banner',
+    FOOTER: 'contentinfo', FORM: 'form', SECTION: 'region', DIALOG: 'dialog', INPUT: 'textbox',
+    TEXTAREA: 'textbox', SELECT: 'combobox', BUTTON: 'button', A: 'link' };
+  const clean = (s, n) => {
+    const text = (s || '').replace(/\\s+/g, ' ').trim();
+    return text.length > n ? text.slice(0, n - 1) + '…' : text;
+  };
+  const visible = (el) => el.getClientRects().length > 0 && window.getComputedStyle(el).visibility !== 'hidden';
+  const nameOf = (el) => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    const byId = labelledBy && document.getElementById(labelledBy.split(' ')[0]);
+    const heading = el.querySelector && el.querySelector('h1, h2, h3, h4, legend');
+    return clean(
+      el.getAttribute('aria-label') || (byId && byId.textContent) || (el.labels && el.labels[0] && el.labels[0].textContent) ||
+        el.getAttribute('placeholder') || (heading && heading.textContent) || el.getAttribute('name') || '',
+      50
+    );
+  };
+  const label = (el) => {
+    const role = el.getAttribute('role') || IMPLICIT_ROLES[el.tagName] || el.tagName.toLowerCase();
+    const name = nameOf(el);
+    return name ? role + ' "' + name + '"' : role;
+  };
+  const pageState = () => {
+    const active = document.activeElement;
+    return {
+      url: location.href,
+      title: document.title,
+      focus: active && active !== document.body && active !== document.documentElement ? label(active) : null,
+      dialogs: [...document.querySelectorAll(DIALOGS)].filter(visible).map(label),
+      alerts: [...document.querySelectorAll(ALERTS)].filter(visible).map((el) => clean(el.innerText, 120)).filter(Boolean),
+      landmarks: [...document.querySelectorAll(LANDMARKS)].filter(visible).map(label),
+    };
+  };
+`;
+
+/**
+ * Record the page state before an action and start a MutationObserver that
+ * catches toasts and alerts — including ones that vanish before the action
+ * returns — and counts added/removed elements. Returns the PageState.
+ */
+export const CHANGES_START_JS = `
+  (function() {
+    ${STATE_JS}
+    if (window.__geminiChanges) window.__geminiChanges.observer.disconnect();
+    const tracker = { alerts: [], added: 0, removed: 0 };
+    const noteAlert = (el) => {
+      const text = clean(el.innerText, 120);
+      if (text && !tracker.alerts.includes(text) && tracker.alerts.length < 5) tracker.alerts.push(text);
+    };
+    tracker.observer = new MutationObserver((records) => {
+      for (const record of records) {
+        for (const node of record.addedNodes) {
+          if (node.nodeType !== 1) continue;
+          tracker.added++;
+          if (node.matches(ALERTS)) noteAlert(node);
+          else node.querySelectorAll(ALERTS).forEach(noteAlert);
+        }
+        for (const node of record.removedNodes) if (node.nodeType === 1) tracker.removed++;
+        // New text inside an existing live region
+        const target = record.target.nodeType === 1 ? record.target : record.target.parentElement;
+        const region = target && target.isConnected && target.closest(ALERTS);
+        if (region && record.type !== 'attributes') noteAlert(region);
+      }
+    });
+    tracker.observer.observe(document, { childList: true, subtree: true, characterData: true });
+    window.__geminiChanges = tracker;
+    return pageState();
+  })()
+`;
+
+/** Stop the observer and return a ChangeObservation */
+export const CHANGES_END_JS = `
+  (function() {
+    ${STATE_JS}
+    const tracker = window.__geminiChanges;
+    delete window.__geminiChanges;
+    if (!tracker) return { state: pageState(), alerts: [], added: null, removed: null };
+    tracker.observer.disconnect();
+    return { state: pageState(), alerts: tracker.alerts, added: tracker.added, removed: tracker.removed };
+  })()
+`;
+
+/** Stop the observer without reading anything, when an action failed */
+export const CHANGES_STOP_JS = `
+  (function() {
+    if (window.__geminiChanges) window.__geminiChanges.observer.disconnect();
+    delete window.__geminiChanges;
+  })()
+`;
+
+/** Items in `after` but not `before`, counting duplicates ("region" twice vs once) */
+function added(before: string[], after: string[]): string[] {
+  const remaining = [...before];
+  return after.filter((item) => {
+    const i = remaining.indexOf(item);
+    if (i === -1) return true;
+    remaining.splice(i, 1);
+    return false;
+  });
+}
+
+function list(items: string[], max = 3): string {
+  const shown = items.slice(0, max).join(", ");
+  return items.length > max ? `${shown} +${items.length - max} more` : shown;
+}
+
+/**
+ * One line describing what an action changed: navigation, title, dialogs,
+ * toasts, landmark regions and focus — or plain content updates when
+ * nothing structural changed. `after` is null when the page could not be
+ * read afterwards (it was still navigating).
+ */
+export function describeChanges(before: PageState, after: ChangeObservation | null): string {
+  if (!after) return "Page changes: the page was still loading — read it again to see the result.";
+  const { state } = after;
+  const parts: string[] = [];
+  const newDocument = after.added === null;
+
+  if (state.url !== before.url) parts.push(`URL → ${state.url}`);
+  else if (newDocument) parts.push("page reloaded");
+  if (state.title !== before.title) parts.push(`title → "${state.title}"`);
+
+  const opened = added(before.dialogs, state.dialogs);
+  const closed = added(state.dialogs, before.dialogs);
+  if (opened.length > 0) parts.push(`dialog opened: ${list(opened)}`);
+  if (closed.length > 0) parts.push(`dialog closed: ${list(closed)}`);
+
+  const messages = [...new Set([...after.alerts, ...added(before.alerts, state.alerts)])];
+  if (messages.length > 0) parts.push(`message: ${list(messages.map((m) => `"${m}"`))}`);
+
+  // A new document has all-new regions; listing them would just repeat the page
+  if (!newDocument) {
+    const shown = added(before.landmarks, state.landmarks);
+    const hidden = added(state.landmarks, before.landmarks);
+    if (shown.length > 0) parts.push(`region added: ${list(shown)}`);
+    if (hidden.length > 0) parts.push(`region removed: ${list(hidden)}`);
+  }
+
+  if (state.focus !== before.focus && state.focus) parts.push(`focus → ${state.focus}`);
+
+  if (parts.length === 0) {
+    if (after.added || after.removed) {
+      parts.push(`content updated (${after.added} element(s) added, ${after.removed} removed)`);
+    } else {
+      return "Page changes: none visible.";
+    }
+  }
+  return `Page changes: ${parts.join("; ")}`;
+}
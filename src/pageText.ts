@@ -0,0 +1,329 @@
+/** One frame rendered as Markdown, as returned by PAGE_MARKDOWN_JS */
+export interface FrameMarkdown {
+  title: string;
+  url: string;
+  markdown: string;
+}
+
+/** A heading and the Markdown under it, up to the next heading */
+export interface PageSection {
+  heading: string;
+  /** Position in the page, for "section 4 of 27" */
+  index: number;
+  text: string;
+}
+
+/** Size of one page of chrome_get_page_text output */
+export const PAGE_TEXT_CHUNK_CHARS = 6000;
+
+/** Sections longer than this are split so a query match doesn't pull in a whole article */
+const SECTION_MAX_CHARS = 2000;
+
+/**
+ * Render a frame's visible content as Markdown: headings, paragraphs, nested
+ * lists, tables, blockquotes, code, links with absolute targets, and form
+ * controls as `[button: …]` / `[input …]`. Open shadow roots and slotted
+ * content are followed; hidden elements, scripts and styles are skipped.
+ */
+export const PAGE_MARKDOWN_JS = `
+  (function() {
+    const SKIP = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'CANVAS', 'IFRAME', 'FRAME', 'OBJECT', 'svg']);
+    const out = [];
+    let inline = '';
+    // Prefix for the next line (list marker, quote) and for continuation lines
+    let lead = '';
+    let indent = '';
+    // Inside a heading, cell or link everything is collected onto one line
+    let capturing = 0;
+
+    const absolute = (href) => {
+      try { return new URL(href, location.href).href; } catch (e) { return href; }
+    };
+    const flush = () => {
+      if (capturing) { inline += ' '; return; }
+      const text = inline.replace(/\\s+/g, ' ').trim();
+      inline = '';
+      if (!text) return;
+      out.push(lead + text);
+      lead = indent;
+    };
+    const emit = (line) => {
+      if (capturing) { inline += ' ' + line + ' '; return; }
+      flush();
+      out.push(line);
+    };
+    const childrenOf = (el) => {
+      if (el.shadowRoot) return [...el.shadowRoot.childNodes];
+      if (el.tagName === 'SLOT') return el.assignedNodes({ flatten: true });
+      return [...el.childNodes];
+    };
+    const walkChildren = (el) => { for (const child of childrenOf(el)) walk(child); };
+    const inlineText = (el) => {
+      const saved = inline;
+      inline = '';
+      capturing++;
+      walkChildren(el);
+      capturing--;
+      const text = inline.replace(/\\s+/g, ' ').trim();
+      inline = saved;
+      return text;
+    };
+    const controlLabel = (el) =>
+      el.getAttribute('aria-label') || (el.labels && el.labels[0] && el.labels[0].innerText.trim()) ||
+      el.getAttribute('placeholder') || el.getAttribute('name') || el.id || '';
+
+    const renderTable = (table) => {
+      const rows = [...table.rows].filter((r) => r.closest('table') === table && r.getClientRects().length > 0);
+      const grid = rows
+        .map((r) => [...r.cells].map((c) => inlineText(c).replace(/\\|/g, '\\\\|')))
+        .filter((cells) => cells.some(Boolean));
+      const width = Math.max(0, ...grid.map((cells) => cells.length));
+      // Layout tables read better as plain blocks
+      if (width < 2 || table.querySelector('table')) { walkChildren(table); return; }
+      const line = (cells) => '| ' + Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ') + ' |';
+      emit('');
+      emit(line(grid[0]));
+      emit('| ' + Array(width).fill('---').join(' | ') + ' |');
+      for (const cells of grid.slice(1)) emit(line(cells));
+      emit('');
+    };
+
+    const renderList = (list) => {
+      flush();
+      const ordered = list.tagName === 'OL';
+      let n = Number(list.getAttribute('start')) || 1;
+      const savedIndent = indent;
+      for (const child of childrenOf(list)) {
+        if (child.nodeType !== 1 || child.tagName !== 'LI') { walk(child); continue; }
+        if (window.getComputedStyle(child).display === 'none') continue;
+        const marker = ordered ? (n++) + '. ' : '- ';
+        lead = savedIndent + marker;
+        indent = savedIndent + ' '.repeat(marker.length);
+        walkChildren(child);
+        flush();
+      }
+      lead = indent = savedIndent;
+      if (!indent) out.push('');
+    };
+
+    const walk = (node) => {
+      if (node.nodeType === 3) { inline += node.textContent; return; }
+      if (node.nodeType !== 1) return;
+      const el = node;
+      const tag = el.tagName;
+      if (SKIP.has(tag)) return;
+      const style = window.getComputedStyle(el);
+      if (style.display === 'none' || style.visibility === 'hidden') return;
+
+      const heading = /^H([1-6])$/.exec(tag);
+      if (heading) {
+        const text = inlineText(el);
+        if (text) { emit(''); emit('#'.repeat(Number(heading[1])) + ' ' + text); emit(''); }
+        return;
+      }
+      switch (tag) {
+        case 'A': {
+          const text = inlineText(el) || el.getAttribute('aria-label') || '';
+          const href = el.getAttribute('href');
+          if (!text) return;
+          inline += href && !href.startsWith('#') && !/^javascript:/i.test(href)
+            ? '[' + text + '](' + absolute(href) + ')'
+            : text;
+          return;
+        }
+        case 'IMG': {
+          const alt = (el.getAttribute('alt') || '').trim();
+          if (alt) inline += '![' + alt + ']';
+          return;
+        }
+        case 'BR': flush(); return;
+        case 'HR': emit(''); emit('---'); emit(''); return;
+        case 'PRE': emit(''); emit('\\u0060\\u0060\\u0060\\n' + el.innerText.replace(/\\n+$/, '') + '\\n\\u0060\\u0060\\u0060'); emit(''); return;
+        case 'CODE': inline += '\\u0060' + el.textContent.trim() + '\\u0060'; return;
+        case 'STRONG':
+        case 'B': {
+          const text = inlineText(el);
+          if (text) inline += '**' + text + '**';
+          return;
+        }
+        case 'UL':
+        case 'OL':
+          if (capturing) walkChildren(el); else renderList(el);
+          return;
+        case 'TABLE':
+          if (capturing) walkChildren(el); else renderTable(el);
+          return;
+        case 'BLOCKQUOTE': {
+          flush();
+          const savedLead = lead;
+          const savedIndent = indent;
+          lead = indent = savedIndent + '> ';
+          walkChildren(el);
+          flush();
+          lead = savedLead;
+          indent = savedIndent;
+          emit('');
+          return;
+        }
+        case 'BUTTON': {
+          const text = inlineText(el) || el.getAttribute('aria-label') || el.title || '';
+          if (text) inline += ' [button: ' + text + '] ';
+          return;
+        }
+        case 'SELECT': {
+          const chosen = [...el.selectedOptions].map((o) => o.text.trim()).join(', ');
+          inline += ' [select ' + JSON.stringify(controlLabel(el)) + (chosen ? ' = ' + JSON.stringify(chosen) : '') + '] ';
+          return;
+        }
+        case 'TEXTAREA':
+        case 'INPUT': {
+          const type = (el.getAttribute('type') || 'text').toLowerCase();
+          if (type === 'hidden') return;
+          if (type === 'submit' || type === 'button' || type === 'reset') {
+            inline += ' [button: ' + (el.value || type) + '] ';
+          } else if (type === 'checkbox' || type === 'radio') {
+            inline += ' [' + type + (el.checked ? ' ✓' : '') + (controlLabel(el) ? ' ' + JSON.stringify(controlLabel(el)) : '') + '] ';
+          } else {
+            const value = type === 'password' ? (el.value ? '••••' : '') : el.value;
+            inline += ' [' + (tag === 'TEXTAREA' ? 'textarea' : 'input ' + type) + ' ' + JSON.stringify(controlLabel(el)) +
+              (value ? ' = ' + JSON.stringify(value.slice(0, 100)) : '') + '] ';
+          }
+          return;
+        }
+      }
+      if (el.getAttribute('role') === 'button' && !capturing) {
+        const text = inlineText(el);
+        if (text) inline += ' [button: ' + text + '] ';
+        return;
+      }
+
+      const block = !style.display.startsWith('inline');
+      if (block) flush();
+      walkChildren(el);
+      if (block) {
+        flush();
+        if (tag === 'P' && !indent) out.push('');
+      }
+    };
+
+    if (document.body) walk(document.body);
+    flush();
+    const markdown = out.join('\\n').replace(/[ \\t]+$/gm, '').replace(/\\n{3,}/g, '\\n\\n').trim();
+    return { title: document.title, url: location.href, markdown };
+  })()
+`;
+
+/** Split Markdown into sections at headings; long sections become several parts */
+export function splitSections(markdown: string): PageSection[] {
+  const sections: PageSection[] = [];
+  let heading = "";
+  let lines: string[] = [];
+
+  const push = () => {
+    const text = lines.join("\n").trim();
+    lines = [];
+    if (!text) return;
+    const parts = chunkMarkdown(text, SECTION_MAX_CHARS);
+    parts.forEach((part, i) => {
+      sections.push({
+        heading: i === 0 ? heading : `${heading || "(top of page)"} (cont.)`,
+        index: sections.length + 1,
+        text: part,
+      });
+    });
+  };
+
+  for (const line of markdown.split("\n")) {
+    if (/^#{1,6} /.test(line)) {
+      push();
+      heading = line;
+      lines = [line];
+    } else {
+      lines.push(line);
+    }
+  }
+  push();
+  return sections;
+}
+
+/** A block of Markdown, or one line of a block too long to keep whole */
+interface ChunkPiece {
+  text: string;
+  /** Continues the previous piece's block, so it is joined with one newline */
+  sameBlock: boolean;
+  /** Header and divider rows of the table this line belongs to */
+  tableHeader?: string;
+}
+
+const TABLE_DIVIDER = /^\|(\s*:?-{3,}:?\s*\|)+$/;
+
+/**
+ * Split Markdown into chunks of at most `size` characters, breaking between
+ * blocks where possible, then between lines, and only as a last resort mid-line.
+ * A table split across chunks repeats its header rows at the top of each one.
+ * Empty input is one empty chunk, so a blank page still has a page 1.
+ */
+export function chunkMarkdown(markdown: string, size = PAGE_TEXT_CHUNK_CHARS): string[] {
+  const pieces: ChunkPiece[] = [];
+  for (const block of markdown.split(/\n{2,}/)) {
+    if (block.length <= size) {
+      pieces.push({ text: block, sameBlock: false });
+      continue;
+    }
+    const lines = block.split("\n");
+    const tableHeader =
+      lines[0].startsWith("|") && TABLE_DIVIDER.test(lines[1] ?? "") ? `${lines[0]}\n${lines[1]}` : undefined;
+    lines.forEach((line, n) => {
+      for (let i = 0; i < line.length || i === 0; i += size) {
+        pieces.push({
+          text: line.slice(i, i + size),
+          sameBlock: n > 0 || i > 0,
+          tableHeader: n > 1 ? tableHeader : undefined,
+        });
+      }
+    });
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    const separator = piece.sameBlock ? "\n" : "\n\n";
+    if (current && current.length + separator.length + piece.text.length > size) {
+      chunks.push(current);
+      const header = piece.tableHeader;
+      current = header && header.length + 1 + piece.text.length <= size ? `${header}\n${piece.text}` : piece.text;
+      continue;
+    }
+    current = current ? `${current}${separator}${piece.text}` : piece.text;
+  }
+  if (current || chunks.length === 0) chunks.push(current);
+  return chunks;
+}
+
+const STOP_WORDS = new Set(["the", "a", "an", "and", "or", "of", "to", "in", "on", "for", "is", "are", "with", "how", "what"]);
+
+/**
+ * Sections relevant to `query`, best first: every query word found counts,
+ * matches in the heading count triple and the exact phrase earns a bonus.
+ */
+export function searchSections(sections: PageSection[], query: string): PageSection[] {
+  const phrase = query.toLowerCase().trim();
+  const terms = phrase.split(/\W+/).filter((t) => t.length > 1 && !STOP_WORDS.has(t));
+  if (terms.length === 0) terms.push(phrase);
+
+  const count = (text: string, term: string) => text.split(term).length - 1;
+  return sections
+    .map((section) => {
+      const body = section.text.toLowerCase();
+      const heading = section.heading.toLowerCase();
+      const found = terms.filter((t) => body.includes(t));
+      let score = terms.reduce((sum, t) => sum + Math.min(count(body, t), 10) + 3 * count(heading, t), 0);
+      // Sections with more of the distinct words beat ones repeating a single word
+      score *= found.length / terms.length;
+      if (body.includes(phrase)) score += 10;
+      return { section, score };
+    })
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map((s) => s.section);
+}
@@ -0,0 +1,304 @@
+import type { NetworkEntry } from "./network.js";
+import { formatSize } from "./downloads.js";
+
+/** Network conditions as in DevTools' throttling presets */
+export interface NetworkProfile {
+  label: string;
+  /** Added round-trip latency, ms */
+  latency: number;
+  /** Throughput in kilobits per second */
+  downloadKbps: number;
+  uploadKbps: number;
+}
+
+export const NETWORK_PROFILES: Record<string, NetworkProfile> = {
+  "slow-3g": { label: "Slow 3G", latency: 2000, downloadKbps: 400, uploadKbps: 400 },
+  "fast-3g": { label: "Fast 3G", latency: 563, downloadKbps: 1440, uploadKbps: 675 },
+  "slow-4g": { label: "Slow 4G", latency: 150, downloadKbps: 1600, uploadKbps: 750 },
+  "4g": { label: "4G", latency: 60, downloadKbps: 9000, uploadKbps: 9000 },
+};
+
+/** Look up a network profile by name ("Fast 3G", "slow-4g", …) */
+export function findNetworkProfile(name: string): NetworkProfile | null {
+  return NETWORK_PROFILES[name.toLowerCase().trim().replace(/[\s_]+/g, "-")] ?? null;
+}
+
+/** Where an element sits, e.g. `img#hero.banner` */
+interface ElementLabel {
+  element: string | null;
+}
+
+/** What VITALS_COLLECT_JS returns */
+export interface PageVitals {
+  url: string;
+  /** Navigation timing, ms from navigation start */
+  navigation: { ttfb: number; domContentLoaded: number; load: number; type: string } | null;
+  fcp: number | null;
+  lcp: (ElementLabel & { time: number; url: string | null }) | null;
+  cls: number;
+  /** Largest individual layout shifts */
+  shifts: Array<ElementLabel & { time: number; value: number }>;
+  /** Slowest interaction so far — INP for pages with few interactions */
+  inp: (ElementLabel & { duration: number; type: string }) | null;
+  longTasks: Array<{ start: number; duration: number; source: string }>;
+}
+
+/**
+ * Registered for new documents before the measured reload: buffered
+ * PerformanceObservers that record LCP, CLS (largest session window),
+ * the slowest interaction and long tasks into `window.__geminiPerf`.
+ * Safe to run again on a page that already has it.
+ */
+export const VITALS_OBSERVER_JS = `
+  (function() {
+    if (window.__geminiPerf) return;
+    const perf = window.__geminiPerf = { lcp: null, cls: 0, shifts: [], inp: null, longTasks: [] };
+    const describe = (el) => {
+      if (!el || !el.tagName) return null;
+      let label = el.tagName.toLowerCase();
+      if (el.id) label += '#' + el.id;
+      if (el.classList && el.classList.length) label += '.' + [...el.classList].slice(0, 2).join('.');
+      return label;
+    };
+    const observe = (type, onEntry, extra) => {
+      try {
+        new PerformanceObserver((list) => list.getEntries().forEach(onEntry)).observe({ type, buffered: true, ...extra });
+      } catch (e) { /* entry type not supported */ }
+    };
+
+    observe('largest-contentful-paint', (e) => {
+      perf.lcp = { time: e.startTime, element: describe(e.element), url: e.url || null };
+    });
+
+    // Shifts less than 1s apart and within 5s form a session; CLS is the worst session
+    let session = 0, sessionStart = 0, previous = 0;
+    observe('layout-shift', (e) => {
+      if (e.hadRecentInput) return;
+      if (session && e.startTime - previous < 1000 && e.startTime - sessionStart < 5000) {
+        session += e.value;
+      } else {
+        session = e.value;
+        sessionStart = e.startTime;
+      }
+      previous = e.startTime;
+      perf.cls = Math.max(perf.cls, session);
+      const source = e.sources && e.sources.find((s) => s.node);
+      perf.shifts.push({ time: e.startTime, value: e.value, element: describe(source && source.node) });
+    });
+
+    observe('event', (e) => {
+      if (!e.interactionId) return;
+      if (!perf.inp || e.duration > perf.inp.duration) {
+        perf.inp = { duration: e.duration, type: e.name, element: describe(e.target) };
+      }
+    }, { durationThreshold: 16 });
+
+    observe('longtask', (e) => {
+      const attribution = e.attribution && e.attribution[0];
+      const source = (attribution && (attribution.containerSrc || attribution.containerName)) || e.name;
+      perf.longTasks.push({ start: e.startTime, duration: e.duration, source });
+    });
+  })();
+`;
+
+/** Reads what VITALS_OBSERVER_JS recorded, plus navigation and paint timing, as PageVitals */
+export const VITALS_COLLECT_JS = `
+  (function() {
+    const perf = window.__geminiPerf || { lcp: null, cls: 0, shifts: [], inp: null, longTasks: [] };
+    const nav = performance.getEntriesByType('navigation')[0];
+    const fcp = performance.getEntriesByType('paint').find((p) => p.name === 'first-contentful-paint');
+    return {
+      url: location.href,
+      navigation: nav ? {
+        ttfb: nav.responseStart,
+        domContentLoaded: nav.domContentLoadedEventEnd,
+        load: nav.loadEventEnd,
+        type: nav.type,
+      } : null,
+      fcp: fcp ? fcp.startTime : null,
+      lcp: perf.lcp,
+      cls: perf.cls,
+      shifts: [...perf.shifts].sort((a, b) => b.value - a.value).slice(0, 3),
+      inp: perf.inp,
+      longTasks: perf.longTasks,
+    };
+  })()
+`;
+
+/** Performance.getMetrics values worth showing, with how to print them */
+const RUNTIME_METRICS: Array<{ name: string; label: string; unit: "s" | "bytes" | "count" }> = [
+  { name: "TaskDuration", label: "main-thread tasks", unit: "s" },
+  { name: "ScriptDuration", label: "script", unit: "s" },
+  { name: "LayoutDuration", label: "layout", unit: "s" },
+  { name: "RecalcStyleDuration", label: "style recalc", unit: "s" },
+  { name: "JSHeapUsedSize", label: "JS heap", unit: "bytes" },
+  { name: "Nodes", label: "DOM nodes", unit: "count" },
+  { name: "LayoutCount", label: "layouts", unit: "count" },
+  { name: "JSEventListeners", label: "event listeners", unit: "count" },
+];
+
+/** Good / poor thresholds, as published for Core Web Vitals */
+const THRESHOLDS = {
+  lcp: [2500, 4000],
+  fcp: [1800, 3000],
+  ttfb: [800, 1800],
+  inp: [200, 500],
+  cls: [0.1, 0.25],
+  tbt: [200, 600],
+} as const;
+
+/** Resources above this size are called out as findings */
+const LARGE_RESOURCE_BYTES = 500 * 1024;
+
+export interface PerformanceReport {
+  vitals: PageVitals;
+  metrics: Array<{ name: string; value: number }>;
+  /** Requests made since the reload (or all recorded ones without a reload) */
+  requests: NetworkEntry[];
+  /** "reloaded, Fast 3G, CPU 4x slower" */
+  conditions: string;
+}
+
+function ms(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(2)}s` : `${Math.round(value)}ms`;
+}
+
+function rating(value: number, [good, poor]: readonly [number, number]): "good" | "needs improvement" | "poor" {
+  return value <= good ? "good" : value <= poor ? "needs improvement" : "poor";
+}
+
+function shortUrl(url: string): string {
+  return url.length > 100 ? `${url.slice(0, 97)}…` : url;
+}
+
+/** Total blocking time: the part of each long task beyond 50ms */
+function blockingTime(vitals: PageVitals): number {
+  return vitals.longTasks.reduce((sum, t) => sum + Math.max(0, t.duration - 50), 0);
+}
+
+/**
+ * Findings ranked worst first. Each metric's score is its value relative to
+ * the "poor" threshold, so a 6s LCP (1.5) outranks a 0.2 CLS (0.8); oversized
+ * resources score by size, reaching 1 at 2 MB.
+ */
+function rankFindings(report: PerformanceReport): string[] {
+  const { vitals, requests } = report;
+  const findings: Array<{ score: number; text: string }> = [];
+  const add = (
+    label: string,
+    value: number,
+    thresholds: readonly [number, number],
+    format: (value: number) => string,
+    detail = ""
+  ) => {
+    const verdict = rating(value, thresholds);
+    if (verdict === "good") return;
+    findings.push({
+      score: value / thresholds[1],
+      text: `${verdict.toUpperCase()}: ${label} ${format(value)} (good ≤ ${format(thresholds[0])})${detail}`,
+    });
+  };
+  const score = (value: number) => value.toFixed(3);
+
+  if (vitals.lcp) {
+    const what = [vitals.lcp.element, vitals.lcp.url && shortUrl(vitals.lcp.url)].filter(Boolean).join(" ");
+    add("LCP", vitals.lcp.time, THRESHOLDS.lcp, ms, what ? ` — ${what}` : "");
+  }
+  const worstShift = vitals.shifts[0];
+  add("CLS", vitals.cls, THRESHOLDS.cls, score, worstShift?.element ? ` — biggest shift from ${worstShift.element}` : "");
+  if (vitals.inp) {
+    add("INP", vitals.inp.duration, THRESHOLDS.inp, ms, ` — ${vitals.inp.type} on ${vitals.inp.element ?? "?"}`);
+  }
+  const tbt = blockingTime(vitals);
+  add("Total blocking time", tbt, THRESHOLDS.tbt, ms, ` from ${vitals.longTasks.length} long task(s)`);
+  if (vitals.fcp !== null) add("FCP", vitals.fcp, THRESHOLDS.fcp, ms);
+  if (vitals.navigation) add("TTFB", vitals.navigation.ttfb, THRESHOLDS.ttfb, ms);
+
+  for (const entry of requests) {
+    const size = entry.encodedDataLength ?? 0;
+    if (size < LARGE_RESOURCE_BYTES) continue;
+    findings.push({
+      score: size / (4 * LARGE_RESOURCE_BYTES),
+      text: `LARGE: ${entry.resourceType} ${formatSize(size)} — ${shortUrl(entry.url)}`,
+    });
+  }
+  const failed = requests.filter((e) => e.errorText || (e.status ?? 0) >= 400);
+  if (failed.length > 0) {
+    findings.push({
+      score: 0.5,
+      text: `FAILED: ${failed.length} request(s), e.g. ${failed[0].status ?? failed[0].errorText} ${shortUrl(failed[0].url)}`,
+    });
+  }
+
+  return findings.sort((a, b) => b.score - a.score).map((f, i) => `${i + 1}. ${f.text}`);
+}
+
+/** The full chrome_performance report: ranked findings, then the numbers behind them */
+export function formatPerformanceReport(report: PerformanceReport): string {
+  const { vitals, metrics, requests } = report;
+  const lines = [`=== Performance: ${vitals.url} ===`, `Conditions: ${report.conditions}`, ""];
+
+  const findings = rankFindings(report);
+  lines.push("Findings, worst first:");
+  lines.push(...(findings.length > 0 ? findings : ["(none — every measured metric is in the good range)"]));
+
+  lines.push("", "Web Vitals:");
+  lines.push(
+    vitals.lcp
+      ? `  LCP ${ms(vitals.lcp.time)} (${rating(vitals.lcp.time, THRESHOLDS.lcp)})${vitals.lcp.element ? ` — ${vitals.lcp.element}` : ""}`
+      : "  LCP — not reported"
+  );
+  lines.push(`  CLS ${vitals.cls.toFixed(3)} (${rating(vitals.cls, THRESHOLDS.cls)})`);
+  for (const shift of vitals.shifts) {
+    lines.push(`    shift ${shift.value.toFixed(3)} at ${ms(shift.time)}${shift.element ? ` — ${shift.element}` : ""}`);
+  }
+  lines.push(
+    vitals.inp
+      ? `  INP ${ms(vitals.inp.duration)} (${rating(vitals.inp.duration, THRESHOLDS.inp)}) — ${vitals.inp.type} on ${vitals.inp.element ?? "?"}`
+      : "  INP — no interactions yet (interact with the page, then call chrome_performance with reload=false)"
+  );
+  const timing = [
+    vitals.fcp !== null ? `FCP ${ms(vitals.fcp)}` : "",
+    vitals.navigation ? `TTFB ${ms(vitals.navigation.ttfb)}` : "",
+    vitals.navigation?.domContentLoaded ? `DOMContentLoaded ${ms(vitals.navigation.domContentLoaded)}` : "",
+    vitals.navigation?.load ? `load ${ms(vitals.navigation.load)}` : "",
+  ].filter(Boolean);
+  if (timing.length > 0) lines.push(`  ${timing.join(", ")}`);
+
+  if (vitals.longTasks.length > 0) {
+    const total = vitals.longTasks.reduce((sum, t) => sum + t.duration, 0);
+    lines.push("", `Long tasks: ${vitals.longTasks.length}, ${ms(total)} total, ${ms(blockingTime(vitals))} blocking`);
+    for (const task of [...vitals.longTasks].sort((a, b) => b.duration - a.duration).slice(0, 5)) {
+      lines.push(`  ${ms(task.duration)} at ${ms(task.start)} — ${task.source}`);
+    }
+  }
+
+  if (requests.length > 0) {
+    const totalBytes = requests.reduce((sum, e) => sum + (e.encodedDataLength ?? 0), 0);
+    lines.push("", `Largest resources (${requests.length} requests, ${formatSize(totalBytes)} transferred):`);
+    for (const entry of [...requests].sort((a, b) => (b.encodedDataLength ?? 0) - (a.encodedDataLength ?? 0)).slice(0, 10)) {
+      const duration = entry.endTime ? ` ${ms((entry.endTime - entry.startTime) * 1000)}` : "";
+      lines.push(`  ${formatSize(entry.encodedDataLength ?? 0).padStart(9)} ${entry.resourceType.padEnd(10)}${duration} ${shortUrl(entry.url)}`);
+    }
+    const slowest = requests
+      .filter((e) => e.endTime)
+      .sort((a, b) => b.endTime! - b.startTime - (a.endTime! - a.startTime))
+      .slice(0, 5);
+    if (slowest.length > 0) {
+      lines.push("Slowest requests:");
+      for (const entry of slowest) {
+        lines.push(`  ${ms((entry.endTime! - entry.startTime) * 1000).padStart(7)} ${entry.resourceType.padEnd(10)} ${shortUrl(entry.url)}`);
+      }
+    }
+  }
+
+  const byName = new Map(metrics.map((m) => [m.name, m.value]));
+  const runtime = RUNTIME_METRICS.filter((m) => byName.has(m.name)).map((m) => {
+    const value = byName.get(m.name)!;
+    const shown = m.unit === "s" ? ms(value * 1000) : m.unit === "bytes" ? formatSize(value) : String(Math.round(value));
+    return `${m.label} ${shown}`;
+  });
+  if (runtime.length > 0) lines.push("", `Runtime: ${runtime.join(", ")}`);
+
+  return lines.join("\n");
+}
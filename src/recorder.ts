@@ -0,0 +1,271 @@
+import { appendFileSync, closeSync, existsSync, mkdirSync, openSync, readFileSync, writeFileSync, writeSync } from "fs";
+import { extname, join } from "path";
+import type CDP from "chrome-remote-interface";
+
+export type RecordingFormat = "jpeg" | "png";
+
+/**
+ * One line of a recording's index.jsonl. Timestamps are ISO strings like the
+ * session log's, and tool calls carry the frame shown when they started, so
+ * frames and log entries can be matched either way.
+ */
+export type RecordingEvent =
+  | { type: "start"; timestamp: string; format: RecordingFormat }
+  | { type: "frame"; timestamp: string; frame: number; file: string }
+  | { type: "tool_call"; timestamp: string; frame: number; name: string }
+  | { type: "stop"; timestamp: string; frames: number };
+
+export interface RecordingInfo {
+  dir: string;
+  format: RecordingFormat;
+  frames: number;
+  startedAt: string;
+}
+
+/** Screencast frame size cap — enough to read the page, small enough for long runs */
+const MAX_FRAME_WIDTH = 1280;
+const MAX_FRAME_HEIGHT = 1280;
+const JPEG_QUALITY = 60;
+
+/** MJPEG has no timing of its own, so frames are repeated to fill this rate */
+export const MJPEG_FPS = 5;
+/** Idle stretches (no repaint) are shortened to this in exports */
+const MAX_FRAME_HOLD_MS = 3000;
+const LAST_FRAME_HOLD_MS = 1000;
+
+/**
+ * Records the attached tab with Page.startScreencast: every repaint becomes a
+ * numbered image in `dir/frames/`, listed with its time in `dir/index.jsonl`.
+ * Recording follows the agent across tab switches and reconnects.
+ */
+export class ScreenRecorder {
+  private client: CDP.Client | null = null;
+  private current: RecordingInfo | null = null;
+
+  /** Subscribe to frames on a (re)connected client and resume an active recording */
+  async bind(client: CDP.Client): Promise<void> {
+    this.client = client;
+    client.Page.screencastFrame(({ data, metadata, sessionId }) => {
+      client.Page.screencastFrameAck({ sessionId }).catch(() => {});
+      this.saveFrame(data, metadata.timestamp);
+    });
+    if (this.current) await this.startScreencast();
+  }
+
+  private async startScreencast(): Promise<void> {
+    if (!this.client || !this.current) return;
+    await this.client.Page.startScreencast({
+      format: this.current.format,
+      quality: this.current.format === "jpeg" ? JPEG_QUALITY : undefined,
+      maxWidth: MAX_FRAME_WIDTH,
+      maxHeight: MAX_FRAME_HEIGHT,
+    });
+  }
+
+  async start(dir: string, format: RecordingFormat): Promise<RecordingInfo> {
+    if (this.current) throw new Error(`Already recording to ${this.current.dir}.`);
+    mkdirSync(join(dir, "frames"), { recursive: true });
+    this.current = { dir, format, frames: 0, startedAt: new Date().toISOString() };
+    this.log({ type: "start", timestamp: this.current.startedAt, format });
+    await this.startScreencast().catch(() => {
+      // Not attached yet — frames start arriving once a tab is attached
+    });
+    return { ...this.current };
+  }
+
+  async stop(): Promise<RecordingInfo | null> {
+    const recording = this.current;
+    if (!recording) return null;
+    await this.client?.Page.stopScreencast().catch(() => {});
+    this.log({ type: "stop", timestamp: new Date().toISOString(), frames: recording.frames });
+    this.current = null;
+    return recording;
+  }
+
+  /** Note a tool call in the index; returns the frame on screen, or null when not recording */
+  mark(name: string): number | null {
+    if (!this.current) return null;
+    this.log({ type: "tool_call", timestamp: new Date().toISOString(), frame: this.current.frames, name });
+    return this.current.frames;
+  }
+
+  status(): RecordingInfo | null {
+    return this.current ? { ...this.current } : null;
+  }
+
+  private saveFrame(data: string, timestamp?: number): void {
+    if (!this.current) return;
+    const frame = ++this.current.frames;
+    const file = `${String(frame).padStart(6, "0")}.${this.current.format === "png" ? "png" : "jpg"}`;
+    writeFileSync(join(this.current.dir, "frames", file), Buffer.from(data, "base64"));
+    const time = timestamp ? new Date(timestamp * 1000) : new Date();
+    this.log({ type: "frame", timestamp: time.toISOString(), frame, file });
+  }
+
+  private log(event: RecordingEvent): void {
+    if (!this.current) return;
+    appendFileSync(join(this.current.dir, "index.jsonl"), JSON.stringify(event) + "\n", "utf-8");
+  }
+}
+
+/** Frames of a recording directory with how long each stays on screen */
+function readFrames(dir: string): { format: RecordingFormat; frames: Array<{ path: string; holdMs: number }> } {
+  const indexPath = join(dir, "index.jsonl");
+  if (!existsSync(indexPath)) throw new Error(`No recording in ${dir} (index.jsonl is missing).`);
+  let format: RecordingFormat = "jpeg";
+  const timed: Array<{ path: string; time: number }> = [];
+  for (const line of readFileSync(indexPath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    let event: RecordingEvent;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      // A recording cut off mid-write can end in a partial line
+      continue;
+    }
+    if (event.type === "start") format = event.format;
+    if (event.type === "frame") timed.push({ path: join(dir, "frames", event.file), time: Date.parse(event.timestamp) });
+  }
+  const frames = timed
+    .filter((f) => existsSync(f.path))
+    .map((f, i, all) => ({
+      path: f.path,
+      holdMs: i + 1 < all.length ? Math.min(Math.max(all[i + 1].time - f.time, 1), MAX_FRAME_HOLD_MS) : LAST_FRAME_HOLD_MS,
+    }));
+  if (frames.length === 0) throw new Error(`The recording in ${dir} has no frames.`);
+  return { format, frames };
+}
+
+/**
+ * Stitch a recording into one file, chosen by extension: `.mjpeg` (JPEG
+ * recordings) is a motion-JPEG stream at MJPEG_FPS, `.png`/`.apng` (PNG
+ * recordings) an animated PNG with the real frame timing. Idle stretches are
+ * shortened to a few seconds. Without `outPath`, the file goes next to the
+ * frames in the recording's own format. Returns a one-line summary.
+ */
+export function exportRecording(dir: string, outPath?: string): string {
+  const { format, frames } = readFrames(dir);
+  outPath ??= join(dir, `recording.${format === "png" ? "png" : "mjpeg"}`);
+  const ext = extname(outPath).toLowerCase();
+  if (ext === ".mjpeg" || ext === ".mjpg") {
+    if (format !== "jpeg") throw new Error("This recording is PNG — export it to .png (animated PNG) instead.");
+    return writeMjpeg(frames, outPath);
+  }
+  if (ext === ".png" || ext === ".apng") {
+    if (format !== "png") {
+      throw new Error("This recording is JPEG — export it to .mjpeg, or record with RECORD_FORMAT=png for an animated PNG.");
+    }
+    return writeApng(frames, outPath);
+  }
+  throw new Error(`Unsupported export format "${ext || outPath}". Use .mjpeg or .png.`);
+}
+
+function writeMjpeg(frames: Array<{ path: string; holdMs: number }>, outPath: string): string {
+  const fd = openSync(outPath, "w");
+  let written = 0;
+  try {
+    for (const frame of frames) {
+      const data = readFileSync(frame.path);
+      const copies = Math.max(1, Math.round((frame.holdMs * MJPEG_FPS) / 1000));
+      for (let i = 0; i < copies; i++) writeSync(fd, data);
+      written += copies;
+    }
+  } finally {
+    closeSync(fd);
+  }
+  return (
+    `Exported ${frames.length} frame(s) as ${written} MJPEG frames at ${MJPEG_FPS} fps to ${outPath} ` +
+    `(play with: ffplay -f mjpeg -framerate ${MJPEG_FPS} "${outPath}")`
+  );
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, "ascii");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+/** IHDR data and image data of a PNG file */
+function readPng(path: string): { ihdr: Buffer; idat: Buffer[] } {
+  const png = readFileSync(path);
+  if (!png.subarray(0, 8).equals(PNG_SIGNATURE)) throw new Error(`${path} is not a PNG file.`);
+  let ihdr = Buffer.alloc(0);
+  const idat: Buffer[] = [];
+  for (let offset = 8; offset + 8 <= png.length; ) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("ascii", offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") ihdr = data;
+    if (type === "IDAT") idat.push(data);
+    offset += 12 + length;
+  }
+  return { ihdr, idat };
+}
+
+/**
+ * Animated PNG from PNG frames without decoding them: the frames' image data
+ * is copied into IDAT (first frame) and fdAT chunks. Frames whose size or
+ * pixel format differs from the first (the window was resized) are skipped.
+ */
+function writeApng(frames: Array<{ path: string; holdMs: number }>, outPath: string): string {
+  const first = readPng(frames[0].path);
+  const usable = frames.filter((f, i) => i === 0 || readPng(f.path).ihdr.equals(first.ihdr));
+  const width = first.ihdr.readUInt32BE(0);
+  const height = first.ihdr.readUInt32BE(4);
+
+  const fd = openSync(outPath, "w");
+  try {
+    writeSync(fd, PNG_SIGNATURE);
+    writeSync(fd, pngChunk("IHDR", first.ihdr));
+    const actl = Buffer.alloc(8);
+    actl.writeUInt32BE(usable.length, 0);
+    actl.writeUInt32BE(0, 4); // loop forever
+    writeSync(fd, pngChunk("acTL", actl));
+
+    let sequence = 0;
+    usable.forEach((frame, i) => {
+      const fctl = Buffer.alloc(26);
+      fctl.writeUInt32BE(sequence++, 0);
+      fctl.writeUInt32BE(width, 4);
+      fctl.writeUInt32BE(height, 8);
+      fctl.writeUInt32BE(0, 12);
+      fctl.writeUInt32BE(0, 16);
+      fctl.writeUInt16BE(frame.holdMs, 20);
+      fctl.writeUInt16BE(1000, 22);
+      writeSync(fd, pngChunk("fcTL", fctl));
+
+      const { idat } = i === 0 ? first : readPng(frame.path);
+      for (const data of idat) {
+        if (i === 0) {
+          writeSync(fd, pngChunk("IDAT", data));
+        } else {
+          const seq = Buffer.alloc(4);
+          seq.writeUInt32BE(sequence++, 0);
+          writeSync(fd, pngChunk("fdAT", Buffer.concat([seq, data])));
+        }
+      }
+    });
+    writeSync(fd, pngChunk("IEND", Buffer.alloc(0)));
+  } finally {
+    closeSync(fd);
+  }
+  const skipped = frames.length - usable.length;
+  return `Exported ${usable.length} frame(s) as an animated PNG to ${outPath}${skipped ? ` (${skipped} frame(s) of a different size skipped)` : ""}`;
+}
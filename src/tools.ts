@@ -1,4 +1,18 @@
-import { ChromeClient } from "./chromeClient.js";
+import {
+  ChromeClient,
+  type ElementLocator,
+  type ScreenshotOptions,
+  type StorageArea,
+  type TypeMode,
+  type WaitCondition,
+} from "./chromeClient.js";
+import { parseModifiers } from "./keys.js";
+import { config } from "./config.js";
+import { parseConsoleLevel } from "./consoleLog.js";
+import type { LaunchOptions } from "./launcher.js";
+import type { EmulationState } from "./emulation.js";
+import type { InterceptAction } from "./intercept.js";
+import { parseSchema, type ExtractSchema } from "./extract.js";
 import { resolve, join } from "path";
 import { SchemaType, type FunctionDeclaration } from "@google/generative-ai";
 import {
@@ -13,14 +27,76 @@ import { execSync } from "child_process";
 
 // ─── Chrome Tool Declarations ────────────────────────────────────────────────
 
+/** Properties of a wait condition, shared by chrome_wait_for and the waitFor option */
+const waitConditionProperties = {
+  selector: {
+    type: SchemaType.STRING,
+    description: "Wait until a visible element matches this CSS selector",
+  },
+  selectorGone: {
+    type: SchemaType.STRING,
+    description: "Wait until no visible element matches this CSS selector (spinners, modals)",
+  },
+  text: {
+    type: SchemaType.STRING,
+    description: "Wait until this text appears on the page (case-insensitive)",
+  },
+  url: {
+    type: SchemaType.STRING,
+    description: "Wait until the URL contains this string or matches this glob",
+  },
+  urlChanged: {
+    type: SchemaType.BOOLEAN,
+    description: "Wait until the URL differs from when the wait started",
+  },
+  networkIdle: {
+    type: SchemaType.BOOLEAN,
+    description: "Wait until no network requests have been in flight for 500ms",
+  },
+  timeoutMs: {
+    type: SchemaType.NUMBER,
+    description: "Give up after this many ms (default: 10000, max: 60000)",
+  },
+} as const;
+
+const waitForOption = {
+  type: SchemaType.OBJECT,
+  description:
+    "Optional condition to wait for afterwards (same fields as chrome_wait_for), e.g. {\"urlChanged\": true} or {\"selector\": \".results\"}",
+  properties: waitConditionProperties,
+} as const;
+
 export const chromeToolDeclarations: FunctionDeclaration[] = [
   {
     name: "chrome_launch",
     description:
-      "Launch Chrome with remote debugging enabled (uses the user's existing profile). If Chrome is already running, reports the existing tabs. Always call this before chrome_list_tabs if Chrome is not running.",
+      "Launch Chrome with remote debugging enabled (by default with the user's existing profile, or as configured). If Chrome is already running, reports the existing tabs. Always call this before chrome_list_tabs if Chrome is not running.",
     parameters: {
       type: SchemaType.OBJECT,
-      properties: {},
+      properties: {
+        headless: {
+          type: SchemaType.BOOLEAN,
+          description: "Run without a window (--headless=new)",
+        },
+        profile: {
+          type: SchemaType.STRING,
+          description:
+            "'default' (the user's profile), 'temp' (throwaway, deleted on exit), a profile name, or a user-data-dir path",
+        },
+        windowSize: {
+          type: SchemaType.STRING,
+          description: "Window size as WIDTHxHEIGHT, e.g. '1280x800'",
+        },
+        proxy: {
+          type: SchemaType.STRING,
+          description: "Proxy server, e.g. 'http://proxy:3128'",
+        },
+        flags: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description: "Extra Chrome command-line flags",
+        },
+      },
     },
   },
   {
@@ -47,10 +123,56 @@ export const chromeToolDeclarations: FunctionDeclaration[] = [
       required: ["tabIndex"],
     },
   },
+  {
+    name: "chrome_new_tab",
+    description:
+      "Open a new browser tab (optionally at a URL) and attach to it.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        url: {
+          type: SchemaType.STRING,
+          description: "Optional URL to open. Default: about:blank",
+        },
+      },
+    },
+  },
+  {
+    name: "chrome_close_tab",
+    description:
+      "Close a browser tab by index (from chrome_list_tabs). Closes the attached tab if no index is given.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        tabIndex: {
+          type: SchemaType.NUMBER,
+          description: "The tab index from chrome_list_tabs. Optional.",
+        },
+      },
+    },
+  },
+  {
+    name: "chrome_switch_tab",
+    description:
+      "Switch to another tab, e.g. a popup or target=_blank window reported as 'New tab opened'. Subsequent chrome_ tools act on that tab.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        tabIndex: {
+          type: SchemaType.NUMBER,
+          description: "The tab index from chrome_list_tabs or the new-tab notice",
+        },
+        tabId: {
+          type: SchemaType.STRING,
+          description: "The tab id from a new-tab notice (alternative to tabIndex)",
+        },
+      },
+    },
+  },
   {
     name: "chrome_navigate",
     description:
-      "Navigate the current tab to a URL. Waits for the page to load.",
+      "Navigate the current tab to a URL. Waits for the page to load, then optionally for a condition.",
     parameters: {
       type: SchemaType.OBJECT,
       properties: {
@@ -59,6 +181,7 @@ export const chromeToolDeclarations: FunctionDeclaration[] = [
           description:
             "The URL to navigate to (e.g. 'https://google.com' or 'google.com')",
         },
+        waitFor: waitForOption,
       },
       required: ["url"],
     },
@@ -66,7 +189,57 @@ export const chromeToolDeclarations: FunctionDeclaration[] = [
   {
     name: "chrome_get_page_text",
     description:
-      "Get the visible text content and interactive elements of the current page. Use this to understand what's on a page.",
+      "Get the current page as Markdown — headings, lists, tables, links with their URLs, and form controls like [button: …] and [input …]. Use this to understand what's on a page. Long pages are split into pages of about 6000 characters; the header says how many. Pass query to get only the sections about a topic.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        page: {
+          type: SchemaType.NUMBER,
+          description: "Which page of the text to read (default: 1)",
+        },
+        query: {
+          type: SchemaType.STRING,
+          description: "Search words or phrase — returns only the matching sections, best first, instead of a page",
+        },
+      },
+    },
+  },
+  {
+    name: "chrome_extract",
+    description:
+      "Extract structured rows from the page as JSON: a table (rows keyed by column header), a list, or repeated items (one row per match, with fields from 'schema'). Can follow a pagination 'next' link or 'Load more' button across pages and write all rows to a CSV or JSON file. Use this instead of reading page text when the task is collecting data.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        selector: {
+          type: SchemaType.STRING,
+          description: "CSS selector of the table, the ul/ol list, or the repeated item elements (e.g. '.product-card')",
+        },
+        schema: {
+          type: SchemaType.STRING,
+          description:
+            'JSON object mapping field names to CSS selectors inside each item; append @attr to read an attribute, e.g. {"title": "h3", "price": ".price", "url": "a@href"}. JSON Schema "properties" with a "selector" per field and type number/boolean also work.',
+        },
+        next: {
+          type: SchemaType.STRING,
+          description: "CSS selector of the pagination 'next' control, or 'auto' to find a Next / » / Load more link",
+        },
+        maxPages: {
+          type: SchemaType.NUMBER,
+          description: "Max pages to read when following next (default: 5, max: 50)",
+        },
+        output: {
+          type: SchemaType.STRING,
+          description: "File to write all rows to, relative to the working directory — .csv for CSV, otherwise JSON",
+        },
+      },
+      required: ["selector"],
+    },
+  },
+  {
+    name: "chrome_snapshot",
+    description:
+      "Get an accessibility-tree snapshot of the current page: roles, names and state of elements, with a numbered ref (e.g. [ref=17]) on every interactive element. Pass 'ref=17' as the target of chrome_click or chrome_type to act on that exact element. Refs are reset when the page navigates.",
     parameters: {
       type: SchemaType.OBJECT,
       properties: {},
@@ -75,7 +248,7 @@ export const chromeToolDeclarations: FunctionDeclaration[] = [
   {
     name: "chrome_screenshot",
     description:
-      "Take a screenshot of the current page and save to disk.",
+      "Take a screenshot of the viewport, the full page, or one element. The image is saved to disk and shown to you, so use it to check layout, canvas content or anything text extraction misses.",
     parameters: {
       type: SchemaType.OBJECT,
       properties: {
@@ -84,43 +257,433 @@ export const chromeToolDeclarations: FunctionDeclaration[] = [
           description:
             "Optional filename (e.g. 'inbox.png'). Saved to ./screenshots/.",
         },
+        fullPage: {
+          type: SchemaType.BOOLEAN,
+          description: "Capture the whole scrollable page instead of just the viewport",
+        },
+        target: {
+          type: SchemaType.STRING,
+          description: "Capture only this element: 'ref=N', CSS selector, or visible text",
+        },
+        format: {
+          type: SchemaType.STRING,
+          description: "'png' (default) or 'jpeg' (smaller)",
+        },
+        quality: {
+          type: SchemaType.NUMBER,
+          description: "JPEG quality 1-100 (default: 80). Implies format 'jpeg'.",
+        },
+        maxWidth: {
+          type: SchemaType.NUMBER,
+          description: "Downscale to at most this many pixels wide (default: 1280)",
+        },
       },
     },
   },
   {
     name: "chrome_click",
     description:
-      "Click an element by CSS selector or by its visible text.",
+      "Click an element with real mouse events at its center. Target by snapshot ref, CSS selector, visible text, or 'x,y' viewport coordinates. Iframes and open shadow roots are searched automatically; use 'iframe-selector >>> target' to look inside one specific frame.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        target: {
+          type: SchemaType.STRING,
+          description:
+            "'ref=N' from chrome_snapshot, a CSS selector, visible text, or 'x,y' coordinates of the element to click",
+        },
+        modifiers: {
+          type: SchemaType.STRING,
+          description: "Optional modifier keys held during the click, e.g. 'Ctrl', 'Shift', 'Meta+Shift'",
+        },
+        waitFor: waitForOption,
+      },
+      required: ["target"],
+    },
+  },
+  {
+    name: "chrome_click_visual",
+    description:
+      "Click an element by describing what it looks like. Takes a screenshot, locates the element with vision, clicks it with real mouse events and returns a screenshot of the result. Use when chrome_click can't find the element (canvas apps, obfuscated markup).",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        description: {
+          type: SchemaType.STRING,
+          description: "What the element looks like and where, e.g. 'the green Submit button below the form'",
+        },
+        modifiers: {
+          type: SchemaType.STRING,
+          description: "Optional modifier keys held during the click, e.g. 'Ctrl'",
+        },
+      },
+      required: ["description"],
+    },
+  },
+  {
+    name: "chrome_double_click",
+    description:
+      "Double-click an element (e.g. to select a word or open an item). Same targeting as chrome_click.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        target: {
+          type: SchemaType.STRING,
+          description: "'ref=N', CSS selector, visible text, or 'x,y' coordinates",
+        },
+        modifiers: {
+          type: SchemaType.STRING,
+          description: "Optional modifier keys, e.g. 'Shift'",
+        },
+      },
+      required: ["target"],
+    },
+  },
+  {
+    name: "chrome_right_click",
+    description:
+      "Right-click an element to open its context menu. Same targeting as chrome_click.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        target: {
+          type: SchemaType.STRING,
+          description: "'ref=N', CSS selector, visible text, or 'x,y' coordinates",
+        },
+        modifiers: {
+          type: SchemaType.STRING,
+          description: "Optional modifier keys, e.g. 'Shift'",
+        },
+      },
+      required: ["target"],
+    },
+  },
+  {
+    name: "chrome_hover",
+    description:
+      "Move the mouse over an element without clicking. Use for menus and tooltips that open on hover.",
     parameters: {
       type: SchemaType.OBJECT,
       properties: {
         target: {
           type: SchemaType.STRING,
-          description: "CSS selector or visible text of the element to click",
+          description: "'ref=N', CSS selector, visible text, or 'x,y' coordinates",
+        },
+        modifiers: {
+          type: SchemaType.STRING,
+          description: "Optional modifier keys held while hovering, e.g. 'Shift'",
         },
       },
       required: ["target"],
     },
   },
+  {
+    name: "chrome_drag",
+    description:
+      "Drag from one element or point to another with the mouse button held. Works for sortable lists, sliders, canvas apps and HTML5 drag-and-drop.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        source: {
+          type: SchemaType.STRING,
+          description: "Where the drag starts: 'ref=N', CSS selector, visible text, or 'x,y'",
+        },
+        target: {
+          type: SchemaType.STRING,
+          description: "Where to drop: 'ref=N', CSS selector, visible text, or 'x,y'",
+        },
+        modifiers: {
+          type: SchemaType.STRING,
+          description: "Optional modifier keys held during the drag, e.g. 'Alt'",
+        },
+      },
+      required: ["source", "target"],
+    },
+  },
   {
     name: "chrome_type",
     description:
-      "Type text into an input field. Find input by CSS selector, placeholder, name, or aria-label.",
+      "Type text into an input field. Find input by snapshot ref, CSS selector, placeholder, name, or aria-label. Iframes and open shadow roots are searched automatically; use 'iframe-selector >>> target' to look inside one specific frame.",
     parameters: {
       type: SchemaType.OBJECT,
       properties: {
         target: {
           type: SchemaType.STRING,
-          description: "CSS selector, placeholder, name, or aria-label of the input",
+          description:
+            "'ref=N' from chrome_snapshot, or a CSS selector, placeholder, name, or aria-label of the input",
         },
         text: {
           type: SchemaType.STRING,
           description: "The text to type",
         },
+        mode: {
+          type: SchemaType.STRING,
+          description:
+            "'auto' (default): key events per character, but long or non-ASCII text (emoji, CJK, accents) is inserted in one go; 'keys': always key events (for inputs that react to each keystroke); 'insert': always insert as text",
+        },
       },
       required: ["target", "text"],
     },
   },
+  {
+    name: "chrome_fill_form",
+    description:
+      "Fill several form fields in one call: text inputs, textareas, selects, checkboxes, radio groups, date inputs and contenteditable editors, with the input/change/blur events frameworks expect. Returns which fields were set, skipped or failed, and any validation errors afterwards.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        fields: {
+          type: SchemaType.STRING,
+          description:
+            'JSON object mapping each field — its label, name, id, CSS selector or ref=N — to a value: text, true/false for checkboxes, the option label for selects and radio groups, an array for multi-selects. E.g. {"Email": "a@b.com", "Country": "Germany", "Subscribe": true, "Plan": "Pro", "ref=12": "2025-03-01"}',
+        },
+      },
+      required: ["fields"],
+    },
+  },
+  {
+    name: "chrome_upload_file",
+    description:
+      "Attach local files to an <input type=file> or drop them onto a drag-and-drop upload zone. Paths are relative to the working directory.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        target: {
+          type: SchemaType.STRING,
+          description:
+            "'ref=N', CSS selector, or label/text of the file input or drop zone (e.g. 'Attach files', 'Drop images here'). Optional if the page has a single file input.",
+        },
+        paths: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description: "File paths to upload, relative to the working directory",
+        },
+      },
+      required: ["paths"],
+    },
+  },
+  {
+    name: "chrome_wait_for_download",
+    description:
+      "Wait for a file download started by a click (e.g. 'Export CSV') to finish. Returns the saved path in the working directory's downloads folder and the file size, ready for read_file. Each download is returned once, oldest first.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        filename: {
+          type: SchemaType.STRING,
+          description: "Only a download whose file name contains this text (e.g. '.csv', 'invoice')",
+        },
+        timeoutMs: {
+          type: SchemaType.NUMBER,
+          description: "Maximum time to wait in ms (default: 30000, max: 300000)",
+        },
+      },
+    },
+  },
+  {
+    name: "chrome_handle_dialog",
+    description:
+      "Accept or dismiss the JavaScript dialog (alert, confirm, prompt, 'Leave site?') that is blocking the page. Tool results say when one is open and show its message.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        action: {
+          type: SchemaType.STRING,
+          description: "'accept' (OK / Leave) or 'dismiss' (Cancel / Stay)",
+        },
+        promptText: {
+          type: SchemaType.STRING,
+          description: "Answer to type into a prompt() dialog before accepting",
+        },
+      },
+      required: ["action"],
+    },
+  },
+  {
+    name: "chrome_cookies",
+    description:
+      "List, set or delete cookies of the current page. Listing shows name, value, domain, path, expiry and flags.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        action: {
+          type: SchemaType.STRING,
+          description: "'list' (default), 'set', or 'delete' (by name, or every cookie of the page when name is omitted)",
+        },
+        name: { type: SchemaType.STRING, description: "Cookie name (set/delete)" },
+        value: { type: SchemaType.STRING, description: "Cookie value (set)" },
+        domain: {
+          type: SchemaType.STRING,
+          description: "Cookie domain for set, e.g. '.example.com' (default: the current page's host)",
+        },
+        path: { type: SchemaType.STRING, description: "Cookie path for set (default: '/')" },
+        httpOnly: { type: SchemaType.BOOLEAN, description: "Set the HttpOnly flag" },
+        secure: { type: SchemaType.BOOLEAN, description: "Set the Secure flag" },
+        sameSite: { type: SchemaType.STRING, description: "'Strict', 'Lax' or 'None'" },
+        expiresInDays: {
+          type: SchemaType.NUMBER,
+          description: "Lifetime in days for set (default: session cookie)",
+        },
+      },
+    },
+  },
+  {
+    name: "chrome_storage",
+    description:
+      "Read or write localStorage / sessionStorage of the current page's origin.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        action: {
+          type: SchemaType.STRING,
+          description: "'get' (default; all items, or one key), 'set', 'remove' (one key) or 'clear' (everything)",
+        },
+        area: { type: SchemaType.STRING, description: "'local' (default) or 'session'" },
+        key: { type: SchemaType.STRING, description: "Storage key (get/set/remove)" },
+        value: { type: SchemaType.STRING, description: "Value to store (set)" },
+      },
+    },
+  },
+  {
+    name: "chrome_emulate",
+    description:
+      "Emulate a device or environment in the attached tab: a preset (iphone, pixel, tablet, desktop = 1920x1080) and/or custom viewport, user agent, locale, timezone, geolocation and color scheme. Settings accumulate until reset; pass an empty string to clear one.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        device: {
+          type: SchemaType.STRING,
+          description: "Preset: 'iphone', 'pixel', 'tablet' or 'desktop'",
+        },
+        width: { type: SchemaType.NUMBER, description: "Viewport width in CSS pixels" },
+        height: { type: SchemaType.NUMBER, description: "Viewport height in CSS pixels" },
+        deviceScaleFactor: { type: SchemaType.NUMBER, description: "Device pixel ratio (default: 1)" },
+        mobile: { type: SchemaType.BOOLEAN, description: "Emulate a mobile device (meta viewport, touch)" },
+        userAgent: { type: SchemaType.STRING, description: "User agent string" },
+        locale: { type: SchemaType.STRING, description: "Locale, e.g. 'de-DE' (Intl formatting and Accept-Language)" },
+        timezone: { type: SchemaType.STRING, description: "IANA timezone, e.g. 'Asia/Tokyo'" },
+        latitude: { type: SchemaType.NUMBER, description: "Geolocation latitude" },
+        longitude: { type: SchemaType.NUMBER, description: "Geolocation longitude" },
+        accuracy: { type: SchemaType.NUMBER, description: "Geolocation accuracy in meters (default: 50)" },
+        colorScheme: { type: SchemaType.STRING, description: "prefers-color-scheme: 'light' or 'dark'" },
+        reset: { type: SchemaType.BOOLEAN, description: "Clear all emulation first" },
+      },
+    },
+  },
+  {
+    name: "chrome_network_log",
+    description:
+      "List network requests captured in the attached tab (method, status, type, size, timing, URL), newest last. Filter by URL, status or resource type. Pass requestId to see one request's headers and response body. Use this to find failed XHR/fetch calls and API errors.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        urlPattern: {
+          type: SchemaType.STRING,
+          description: "Substring or glob (e.g. '*/api/*') to match request URLs",
+        },
+        status: {
+          type: SchemaType.STRING,
+          description: "Status filter: exact code ('404'), class ('4xx', '5xx'), 'error' (>= 400 or failed), or 'failed'",
+        },
+        resourceType: {
+          type: SchemaType.STRING,
+          description: "Resource type: XHR, Fetch, Document, Script, Stylesheet, Image, Font, Media, WebSocket, Other",
+        },
+        limit: {
+          type: SchemaType.NUMBER,
+          description: "Max requests to list (default: 50)",
+        },
+        requestId: {
+          type: SchemaType.NUMBER,
+          description: "Show full details and response body for request #N",
+        },
+      },
+    },
+  },
+  {
+    name: "chrome_intercept_add",
+    description:
+      "Intercept the attached tab's requests matching a URL pattern (and optionally a method): 'block' them (ads, trackers), 'fail' them with an HTTP status to test error handling, or 'mock' them with a local JSON file. Rules apply in order, first match wins, and stay active until cleared.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        urlPattern: {
+          type: SchemaType.STRING,
+          description: "Substring or glob (e.g. '*/api/cart*', '*doubleclick.net*') to match request URLs",
+        },
+        method: { type: SchemaType.STRING, description: "HTTP method to match, e.g. 'POST' (default: any)" },
+        action: { type: SchemaType.STRING, description: "'block', 'fail' or 'mock'" },
+        status: {
+          type: SchemaType.NUMBER,
+          description: "Response status: for 'fail' (default: 500) or 'mock' (default: 200)",
+        },
+        file: {
+          type: SchemaType.STRING,
+          description: "File to serve as the response body for 'mock' (relative to the working directory)",
+        },
+      },
+      required: ["urlPattern", "action"],
+    },
+  },
+  {
+    name: "chrome_intercept_list",
+    description: "List active request intercept rules with how many requests each has handled.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {},
+    },
+  },
+  {
+    name: "chrome_intercept_clear",
+    description: "Remove one request intercept rule by id, or all rules.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        id: { type: SchemaType.NUMBER, description: "Rule to remove (default: all)" },
+      },
+    },
+  },
+  {
+    name: "chrome_performance",
+    description:
+      "Answer 'why is this page slow?': reload the page with a cold cache (optionally throttled) and report findings ranked worst first — LCP, CLS, INP, total blocking time from long tasks, FCP/TTFB, the largest and slowest resources, and runtime metrics (script/layout time, JS heap, DOM size).",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        network: {
+          type: SchemaType.STRING,
+          description: "Throttle the network during the reload: 'slow-3g', 'fast-3g', 'slow-4g' or '4g'",
+        },
+        cpuSlowdown: {
+          type: SchemaType.NUMBER,
+          description: "Slow the CPU down by this factor during the reload, e.g. 4 for a mid-range phone (1-20)",
+        },
+        reload: {
+          type: SchemaType.BOOLEAN,
+          description:
+            "Reload before measuring (default: true). Pass false to read the current page as is — e.g. to get INP after clicking around.",
+        },
+      },
+    },
+  },
+  {
+    name: "chrome_console_logs",
+    description:
+      "Read the attached tab's console output and uncaught exceptions (with stack traces), newest last. New errors are also mentioned briefly in other chrome_ tool results.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        level: {
+          type: SchemaType.STRING,
+          description: "Minimum level: 'error', 'warning', 'info', 'log' or 'debug' (default: all)",
+        },
+        limit: {
+          type: SchemaType.NUMBER,
+          description: "Max messages to return (default: 50)",
+        },
+      },
+    },
+  },
   {
     name: "chrome_scroll",
     description: "Scroll the page up or down.",
@@ -141,21 +704,56 @@ export const chromeToolDeclarations: FunctionDeclaration[] = [
   },
   {
     name: "chrome_press_key",
-    description: "Press a keyboard key (Enter, Tab, Escape, arrow keys, etc).",
+    description:
+      "Press keyboard keys on the focused element: a single key, a modifier chord like 'Ctrl+A' or 'Shift+Tab', or a space-separated sequence like 'Tab Tab Enter'.",
     parameters: {
       type: SchemaType.OBJECT,
       properties: {
         key: {
           type: SchemaType.STRING,
-          description: "Key name: 'Enter', 'Tab', 'Escape', 'Backspace', 'ArrowDown', etc.",
+          description:
+            "Key, chord or sequence: 'Enter', 'Escape', 'PageDown', 'F5', 'Ctrl+Shift+K', 'Mod+A' (Cmd on macOS, Ctrl elsewhere), 'Alt+ArrowLeft', 'ArrowDown ArrowDown Enter'. Modifiers: Ctrl, Shift, Alt, Meta/Cmd, Mod.",
+        },
+        repeat: {
+          type: SchemaType.NUMBER,
+          description: "Press the whole key/sequence this many times (default: 1, max: 100)",
         },
       },
       required: ["key"],
     },
   },
+  {
+    name: "chrome_evaluate",
+    description:
+      "Run JavaScript in the page's own context (its globals, frameworks and DOM) and get the result as JSON. Use it to read app state or do what no other tool can — not for clicking or typing. DOM nodes, errors and large objects are summarized; output is truncated. Each call may need the user's approval.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        code: {
+          type: SchemaType.STRING,
+          description:
+            "An expression ('document.title', 'window.__APP_STATE__.user') or a function, sync or async ('async () => { const r = await fetch(\"/api/me\"); return r.json(); }'). Promises are awaited.",
+        },
+        frame: {
+          type: SchemaType.STRING,
+          description: "Run inside this iframe instead of the tab (CSS selector; 'outer >>> inner' for nested frames)",
+        },
+      },
+      required: ["code"],
+    },
+  },
+  {
+    name: "chrome_wait_for",
+    description:
+      "Wait until a page condition holds: an element appears or disappears, text appears, the URL changes or matches, or the network goes idle. All given conditions must hold together. Returns an error naming the unmet condition on timeout. Prefer this over chrome_wait.",
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: waitConditionProperties,
+    },
+  },
   {
     name: "chrome_wait",
-    description: "Wait for a specified duration (ms). Max 30000.",
+    description: "Wait for a fixed duration (ms). Max 30000. Prefer chrome_wait_for.",
     parameters: {
       type: SchemaType.OBJECT,
       properties: {
@@ -516,100 +1114,392 @@ function runCommandTool(command: string, cwd?: string): string {
 
 // ─── Screenshot display callback ────────────────────────────────────────────
 
-let _onScreenshot: ((base64: string) => void) | null = null;
+let _onScreenshot: ((base64: string, mimeType: string) => void) | null = null;
 
-export function onScreenshot(cb: (base64: string) => void): void {
+/** Register a callback for captured screenshots (inline display, sending to the model) */
+export function onScreenshot(cb: (base64: string, mimeType: string) => void): void {
   _onScreenshot = cb;
 }
 
+let _locateElement: ElementLocator | null = null;
+
+/** Register the vision model used by chrome_click_visual */
+export function onLocateElement(locate: ElementLocator): void {
+  _locateElement = locate;
+}
+
+/** Asks the user whether a chrome_evaluate call may run */
+export type EvaluateApprover = (code: string, frame?: string) => Promise<boolean>;
+
+let _approveEvaluate: EvaluateApprover | null = null;
+
+/** Register the per-call approval prompt for chrome_evaluate */
+export function onEvaluateApproval(approve: EvaluateApprover): void {
+  _approveEvaluate = approve;
+}
+
 // ─── Unified tool executor ───────────────────────────────────────────────────
 
+/** Chrome tools that still work while a JavaScript dialog blocks the page */
+const DIALOG_SAFE_TOOLS = new Set([
+  "chrome_handle_dialog",
+  "chrome_launch",
+  "chrome_list_tabs",
+  "chrome_network_log",
+  "chrome_console_logs",
+  "chrome_intercept_list",
+  "chrome_wait_for_download",
+  "chrome_wait",
+]);
+
 export async function executeTool(
   chrome: ChromeClient,
   functionName: string,
   args: Record<string, any>
 ): Promise<string> {
+  let result: string;
   try {
-    // Chrome tools
-    switch (functionName) {
-      case "chrome_launch":
-        return await chrome.launchChrome();
-      case "chrome_list_tabs": {
-        const tabs = await chrome.listTabs();
-        if (tabs.length === 0) return "No tabs found.";
-        return tabs
-          .map((t, i) => `[${i}] ${t.title}\n    ${t.url}`)
-          .join("\n\n");
+    const dialog = chrome.openDialog();
+    if (!functionName.startsWith("chrome_")) {
+      result = await runTool(chrome, functionName, args);
+    } else if (dialog && !DIALOG_SAFE_TOOLS.has(functionName)) {
+      result = `ERROR: A ${dialog.type} dialog is blocking the page ("${dialog.message.slice(0, 200)}"). Call chrome_handle_dialog first.`;
+    } else {
+      result = await chrome.untilDialog(runTool(chrome, functionName, args));
+    }
+  } catch (err: any) {
+    result = `Tool error (${functionName}): ${err.message}`;
+  }
+
+  if (functionName.startsWith("chrome_")) {
+    await chrome.releaseRefHandles();
+    // Side effects of browser actions (new tabs, popups, …) ride along with the result
+    const notices = await chrome.takeNotices();
+    if (notices.length > 0) {
+      result += `\n\n${notices.join("\n")}`;
+    }
+  }
+  return result;
+}
+
+async function runTool(
+  chrome: ChromeClient,
+  functionName: string,
+  args: Record<string, any>
+): Promise<string> {
+  // Chrome tools
+  switch (functionName) {
+    case "chrome_launch": {
+      const options: LaunchOptions = {};
+      if (args.headless !== undefined) options.headless = Boolean(args.headless);
+      if (args.profile) options.profile = String(args.profile);
+      if (args.windowSize) options.windowSize = String(args.windowSize);
+      if (args.proxy) options.proxy = String(args.proxy);
+      if (args.flags) options.flags = (Array.isArray(args.flags) ? args.flags : [args.flags]).map(String);
+      return await chrome.launchChrome(options);
+    }
+    case "chrome_list_tabs": {
+      const tabs = await chrome.listTabs();
+      if (tabs.length === 0) return "No tabs found.";
+      const attachedId = chrome.getTabInfo()?.id;
+      return tabs
+        .map((t, i) => `[${i}] ${t.title}${t.id === attachedId ? " (attached)" : ""}\n    ${t.url}`)
+        .join("\n\n");
+    }
+    case "chrome_attach":
+      return await chrome.attach(args.tabIndex as number);
+    case "chrome_new_tab":
+      return await chrome.newTab(args.url as string | undefined);
+    case "chrome_close_tab":
+      return await chrome.closeTab(args.tabIndex as number | undefined);
+    case "chrome_switch_tab":
+      if (args.tabId) return await chrome.switchTab(args.tabId as string);
+      if (args.tabIndex === undefined) return "ERROR: Pass tabIndex or tabId.";
+      return await chrome.switchTab(args.tabIndex as number);
+    case "chrome_navigate":
+      return await chrome.navigate(args.url as string, args.waitFor as WaitCondition | undefined);
+    case "chrome_get_page_text":
+      return await chrome.getPageText({
+        page: args.page as number | undefined,
+        query: args.query as string | undefined,
+      });
+    case "chrome_extract": {
+      let schema: ExtractSchema | undefined;
+      if (args.schema) {
+        try {
+          schema = parseSchema(typeof args.schema === "string" ? args.schema : JSON.stringify(args.schema));
+        } catch (err: any) {
+          return `ERROR: ${err.message}`;
+        }
+      }
+      return await chrome.extract(
+        {
+          selector: args.selector as string,
+          schema,
+          next: args.next as string | undefined,
+          maxPages: args.maxPages as number | undefined,
+        },
+        args.output ? resolvePath(args.output as string) : undefined
+      );
+    }
+    case "chrome_snapshot":
+      return await chrome.snapshot();
+    case "chrome_screenshot": {
+      const options: ScreenshotOptions = {
+        fullPage: args.fullPage as boolean | undefined,
+        target: args.target as string | undefined,
+        format: args.format ? (String(args.format).toLowerCase().replace("jpg", "jpeg") as "png" | "jpeg") : undefined,
+        quality: args.quality as number | undefined,
+        maxWidth: args.maxWidth as number | undefined,
+      };
+      const ext = options.format === "jpeg" || (!options.format && options.quality !== undefined) ? "jpg" : "png";
+      const filename =
+        args.filename ||
+        `screenshot-${new Date().toISOString().replace(/[:.]/g, "-")}.${ext}`;
+      const filePath = resolve("./screenshots", filename);
+      const result = await chrome.screenshot(filePath, options);
+      if (_onScreenshot && result.base64) {
+        _onScreenshot(result.base64, result.mimeType);
       }
-      case "chrome_attach":
-        return await chrome.attach(args.tabIndex as number);
-      case "chrome_navigate":
-        return await chrome.navigate(args.url as string);
-      case "chrome_get_page_text":
-        return await chrome.getPageText();
-      case "chrome_screenshot": {
-        const filename =
-          args.filename ||
-          `screenshot-${new Date().toISOString().replace(/[:.]/g, "-")}.png`;
-        const filePath = resolve("./screenshots", filename);
-        const result = await chrome.screenshot(filePath);
-        if (_onScreenshot && result.base64) {
-          _onScreenshot(result.base64);
+      return result.message;
+    }
+    case "chrome_click":
+      return await chrome.click(
+        args.target as string,
+        { modifiers: parseModifiers(args.modifiers) },
+        args.waitFor as WaitCondition | undefined
+      );
+    case "chrome_click_visual": {
+      if (!_locateElement) return "ERROR: Visual clicking needs a vision model, and none is registered.";
+      const result = await chrome.clickVisual(
+        args.description as string,
+        _locateElement,
+        resolve("./screenshots"),
+        { modifiers: parseModifiers(args.modifiers) }
+      );
+      if (_onScreenshot && result.after) {
+        _onScreenshot(result.after.base64, result.after.mimeType);
+      }
+      return result.message;
+    }
+    case "chrome_double_click":
+      return await chrome.doubleClick(args.target as string, parseModifiers(args.modifiers));
+    case "chrome_right_click":
+      return await chrome.rightClick(args.target as string, parseModifiers(args.modifiers));
+    case "chrome_hover":
+      return await chrome.hover(args.target as string, parseModifiers(args.modifiers));
+    case "chrome_drag":
+      return await chrome.drag(
+        args.source as string,
+        args.target as string,
+        parseModifiers(args.modifiers)
+      );
+    case "chrome_type": {
+      const mode = String(args.mode || "auto").toLowerCase() as TypeMode;
+      if (!["auto", "keys", "insert"].includes(mode)) {
+        return `ERROR: Unknown typing mode "${args.mode}". Use auto, keys or insert.`;
+      }
+      return await chrome.type(args.target as string, args.text as string, mode);
+    }
+    case "chrome_handle_dialog":
+      return await chrome.handleDialog(
+        String(args.action).toLowerCase() !== "dismiss",
+        args.promptText as string | undefined
+      );
+    case "chrome_fill_form": {
+      let fields: unknown = args.fields;
+      if (typeof fields === "string") {
+        try {
+          fields = JSON.parse(fields);
+        } catch (err: any) {
+          return `ERROR: fields is not valid JSON: ${err.message}`;
         }
-        return result.message;
       }
-      case "chrome_click":
-        return await chrome.click(args.target as string);
-      case "chrome_type":
-        return await chrome.type(args.target as string, args.text as string);
-      case "chrome_scroll":
-        return await chrome.scroll(
-          args.direction as "up" | "down",
-          args.amount as number | undefined
-        );
-      case "chrome_press_key":
-        return await chrome.pressKey(args.key as string);
-      case "chrome_wait": {
-        const ms = Math.min(args.ms as number, 30000);
-        return await chrome.wait(ms);
+      if (!fields || typeof fields !== "object" || Array.isArray(fields) || Object.keys(fields).length === 0) {
+        return 'ERROR: fields must be a JSON object like {"Email": "a@b.com"}.';
       }
-
-      // Coding tools
-      case "read_file":
-        return readFileTool(
-          args.path as string,
-          args.offset as number | undefined,
-          args.limit as number | undefined
-        );
-      case "write_file":
-        return writeFileTool(args.path as string, args.content as string);
-      case "edit_file":
-        return editFileTool(
-          args.path as string,
-          args.old_string as string,
-          args.new_string as string
-        );
-      case "list_files":
-        return listFilesTool(
-          args.path as string | undefined,
-          args.recursive as boolean | undefined
-        );
-      case "search_files":
-        return searchFilesTool(
-          args.pattern as string,
-          args.path as string | undefined,
-          args.file_pattern as string | undefined
-        );
-      case "run_command":
-        return runCommandTool(
-          args.command as string,
-          args.cwd as string | undefined
-        );
-
-      default:
-        return `Unknown tool: ${functionName}`;
+      return await chrome.fillForm(fields as Record<string, unknown>);
     }
-  } catch (err: any) {
-    return `Tool error (${functionName}): ${err.message}`;
+    case "chrome_upload_file": {
+      const paths = (Array.isArray(args.paths) ? args.paths : [args.paths]).filter(Boolean) as string[];
+      const files = paths.map(resolvePath);
+      const missing = files.filter((f) => !existsSync(f) || statSync(f).isDirectory());
+      if (missing.length > 0) {
+        return `ERROR: File not found: ${missing.join(", ")}`;
+      }
+      return await chrome.uploadFile((args.target as string) || 'input[type="file"]', files);
+    }
+    case "chrome_performance":
+      return await chrome.measurePerformance({
+        reload: args.reload as boolean | undefined,
+        network: args.network ? String(args.network) : undefined,
+        cpuSlowdown: args.cpuSlowdown as number | undefined,
+      });
+    case "chrome_wait_for_download":
+      return await chrome.waitForDownload(
+        args.filename ? String(args.filename) : undefined,
+        args.timeoutMs as number | undefined
+      );
+    case "chrome_cookies": {
+      const action = String(args.action || "list").toLowerCase();
+      if (action === "list") return await chrome.listCookies();
+      if (action === "delete" || action === "clear") return await chrome.deleteCookies(args.name as string | undefined);
+      if (action !== "set") return `ERROR: Unknown cookie action "${action}". Use list, set or delete.`;
+      if (!args.name) return "ERROR: name is required to set a cookie.";
+      return await chrome.setCookie({
+        name: args.name as string,
+        value: String(args.value ?? ""),
+        domain: args.domain as string | undefined,
+        path: (args.path as string | undefined) || "/",
+        httpOnly: args.httpOnly as boolean | undefined,
+        secure: args.secure as boolean | undefined,
+        sameSite: args.sameSite as string | undefined,
+        expires: args.expiresInDays
+          ? Math.floor(Date.now() / 1000) + Number(args.expiresInDays) * 86400
+          : undefined,
+      });
+    }
+    case "chrome_storage": {
+      const action = String(args.action || "get").toLowerCase();
+      const area: StorageArea = String(args.area || "local").toLowerCase().startsWith("session") ? "session" : "local";
+      const key = args.key as string | undefined;
+      switch (action) {
+        case "get":
+          return await chrome.readStorage(area, key);
+        case "set":
+          if (!key) return "ERROR: key is required to set a storage item.";
+          return await chrome.writeStorage(area, key, String(args.value ?? ""));
+        case "remove":
+          if (!key) return "ERROR: key is required to remove a storage item.";
+          return await chrome.clearStorage(area, key);
+        case "clear":
+          return await chrome.clearStorage(area);
+        default:
+          return `ERROR: Unknown storage action "${action}". Use get, set, remove or clear.`;
+      }
+    }
+    case "chrome_emulate": {
+      const changes: EmulationState & { reset?: boolean } = {
+        device: args.device as string | undefined,
+        width: args.width as number | undefined,
+        height: args.height as number | undefined,
+        deviceScaleFactor: args.deviceScaleFactor as number | undefined,
+        mobile: args.mobile as boolean | undefined,
+        userAgent: args.userAgent as string | undefined,
+        locale: args.locale as string | undefined,
+        timezone: args.timezone as string | undefined,
+        colorScheme: args.colorScheme as EmulationState["colorScheme"],
+        reset: args.reset as boolean | undefined,
+      };
+      if (args.latitude !== undefined && args.longitude !== undefined) {
+        changes.geolocation = {
+          latitude: Number(args.latitude),
+          longitude: Number(args.longitude),
+          accuracy: Number(args.accuracy ?? 50),
+        };
+      }
+      return await chrome.emulate(changes);
+    }
+    case "chrome_network_log":
+      if (args.requestId !== undefined) {
+        return await chrome.networkRequest(args.requestId as number);
+      }
+      return chrome.networkLog({
+        urlPattern: args.urlPattern as string | undefined,
+        status: args.status !== undefined ? String(args.status) : undefined,
+        resourceType: args.resourceType as string | undefined,
+        limit: args.limit as number | undefined,
+      });
+    case "chrome_intercept_add": {
+      const action = String(args.action || "").toLowerCase() as InterceptAction;
+      if (!["block", "fail", "mock"].includes(action)) {
+        return `ERROR: Unknown intercept action "${args.action}". Use block, fail or mock.`;
+      }
+      let file: string | undefined;
+      if (action === "mock") {
+        if (!args.file) return "ERROR: file is required for a mock rule.";
+        file = resolvePath(args.file as string);
+        if (!existsSync(file) || statSync(file).isDirectory()) return `ERROR: File not found: ${file}`;
+      }
+      return await chrome.addInterceptRule({
+        urlPattern: args.urlPattern as string,
+        method: args.method as string | undefined,
+        action,
+        status: args.status !== undefined ? Number(args.status) : undefined,
+        file,
+      });
+    }
+    case "chrome_intercept_list":
+      return chrome.listInterceptRules();
+    case "chrome_intercept_clear":
+      return await chrome.clearInterceptRules(args.id !== undefined ? Number(args.id) : undefined);
+    case "chrome_console_logs": {
+      const level = args.level ? parseConsoleLevel(String(args.level)) : undefined;
+      if (level === null) {
+        return `ERROR: Unknown level "${args.level}". Use error, warning, info, log or debug.`;
+      }
+      return chrome.consoleLogs(level, args.limit as number | undefined);
+    }
+    case "chrome_scroll":
+      return await chrome.scroll(
+        args.direction as "up" | "down",
+        args.amount as number | undefined
+      );
+    case "chrome_press_key":
+      return await chrome.pressKey(args.key as string, (args.repeat as number | undefined) ?? 1);
+    case "chrome_evaluate": {
+      if (!args.code) return "ERROR: code is required.";
+      if (!config.allowEvaluate) {
+        return "ERROR: chrome_evaluate is disabled. The user can enable it with ALLOW_EVALUATE=true in their config.";
+      }
+      const code = String(args.code);
+      const frame = args.frame ? String(args.frame) : undefined;
+      if (config.evaluateApproval) {
+        if (!_approveEvaluate) return "ERROR: chrome_evaluate needs approval, but there is no one to ask.";
+        if (!(await _approveEvaluate(code, frame))) return "ERROR: The user declined to run this script.";
+      }
+      return await chrome.evaluateScript(code, frame);
+    }
+    case "chrome_wait_for":
+      return await chrome.waitFor(args as WaitCondition);
+    case "chrome_wait": {
+      const ms = Math.min(args.ms as number, 30000);
+      return await chrome.wait(ms);
+    }
+
+    // Coding tools
+    case "read_file":
+      return readFileTool(
+        args.path as string,
+        args.offset as number | undefined,
+        args.limit as number | undefined
+      );
+    case "write_file":
+      return writeFileTool(args.path as string, args.content as string);
+    case "edit_file":
+      return editFileTool(
+        args.path as string,
+        args.old_string as string,
+        args.new_string as string
+      );
+    case "list_files":
+      return listFilesTool(
+        args.path as string | undefined,
+        args.recursive as boolean | undefined
+      );
+    case "search_files":
+      return searchFilesTool(
+        args.pattern as string,
+        args.path as string | undefined,
+        args.file_pattern as string | undefined
+      );
+    case "run_command":
+      return runCommandTool(
+        args.command as string,
+        args.cwd as string | undefined
+      );
+
+    default:
+      return `Unknown tool: ${functionName}`;
   }
 }
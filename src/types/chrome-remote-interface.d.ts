@@ -7,25 +7,289 @@ declare module "chrome-remote-interface" {
       captureScreenshot(params?: {
         format?: string;
         quality?: number;
+        clip?: { x: number; y: number; width: number; height: number; scale: number };
+        captureBeyondViewport?: boolean;
       }): Promise<{ data: string }>;
+      getLayoutMetrics(): Promise<{
+        cssLayoutViewport: { pageX: number; pageY: number; clientWidth: number; clientHeight: number };
+        cssContentSize: { x: number; y: number; width: number; height: number };
+      }>;
       javascriptDialogOpening(
-        handler: (params: { type: string; message?: string }) => void
+        handler: (params: {
+          type: string;
+          message?: string;
+          url?: string;
+          defaultPrompt?: string;
+          hasBrowserHandler?: boolean;
+        }) => void
+      ): void;
+      javascriptDialogClosed(
+        handler: (params: { result: boolean; userInput: string }) => void
+      ): void;
+      frameNavigated(
+        handler: (params: { frame: { id: string; parentId?: string; url: string } }) => void
       ): void;
       handleJavaScriptDialog(params: {
         accept: boolean;
         promptText?: string;
       }): Promise<void>;
+      getFrameTree(params?: {}, sessionId?: string): Promise<{ frameTree: CDP.FrameTree }>;
+      startScreencast(params: {
+        format?: "jpeg" | "png";
+        quality?: number;
+        maxWidth?: number;
+        maxHeight?: number;
+        everyNthFrame?: number;
+      }): Promise<void>;
+      stopScreencast(): Promise<void>;
+      screencastFrame(
+        handler: (params: {
+          /** Base64-encoded image */
+          data: string;
+          /** `timestamp` is seconds since the epoch */
+          metadata: { timestamp?: number; deviceWidth: number; deviceHeight: number };
+          sessionId: number;
+        }) => void
+      ): () => void;
+      screencastFrameAck(params: { sessionId: number }): Promise<void>;
+      reload(params?: { ignoreCache?: boolean }): Promise<void>;
+      addScriptToEvaluateOnNewDocument(params: { source: string }): Promise<{ identifier: string }>;
+      /** Deprecated in favour of Browser.setDownloadBehavior, still the only option on older Chrome */
+      setDownloadBehavior(params: { behavior: "deny" | "allow" | "default"; downloadPath?: string }): Promise<void>;
+      downloadWillBegin(handler: (params: CDP.DownloadWillBegin) => void): () => void;
+      downloadProgress(handler: (params: CDP.DownloadProgress) => void): () => void;
+      removeScriptToEvaluateOnNewDocument(params: { identifier: string }): Promise<void>;
+      createIsolatedWorld(
+        params: { frameId: string; worldName?: string },
+        sessionId?: string
+      ): Promise<{ executionContextId: number }>;
     };
     Runtime: {
       enable(): Promise<void>;
-      evaluate(params: {
-        expression: string;
-        awaitPromise?: boolean;
-        returnByValue?: boolean;
-      }): Promise<{ result: { value?: any; type?: string; description?: string } }>;
+      evaluate(
+        params: {
+          expression: string;
+          contextId?: number;
+          awaitPromise?: boolean;
+          returnByValue?: boolean;
+          objectGroup?: string;
+        },
+        sessionId?: string
+      ): Promise<{ result: CDP.RemoteObject; exceptionDetails?: CDP.ExceptionDetails }>;
+      callFunctionOn(
+        params: {
+          functionDeclaration: string;
+          objectId?: string;
+          arguments?: Array<{ value?: any; objectId?: string }>;
+          awaitPromise?: boolean;
+          returnByValue?: boolean;
+        },
+        sessionId?: string
+      ): Promise<{ result: CDP.RemoteObject }>;
+      releaseObjectGroup(params: { objectGroup: string }, sessionId?: string): Promise<void>;
+      runIfWaitingForDebugger(params?: {}, sessionId?: string): Promise<void>;
+      executionContextCreated(
+        handler: (
+          params: {
+            context: {
+              id: number;
+              origin: string;
+              name: string;
+              auxData?: { frameId?: string; isDefault?: boolean; type?: string };
+            };
+          },
+          sessionId?: string
+        ) => void
+      ): () => void;
+      executionContextDestroyed(
+        handler: (params: { executionContextId: number }, sessionId?: string) => void
+      ): () => void;
+      executionContextsCleared(handler: (params: {}, sessionId?: string) => void): () => void;
+      consoleAPICalled(
+        handler: (params: {
+          type: string;
+          args: CDP.RemoteObject[];
+          timestamp: number;
+          stackTrace?: CDP.StackTrace;
+        }) => void
+      ): () => void;
+      exceptionThrown(
+        handler: (params: {
+          timestamp: number;
+          exceptionDetails: CDP.ExceptionDetails;
+        }) => void
+      ): () => void;
     };
-    DOM: {
+    Log: {
       enable(): Promise<void>;
+      entryAdded(
+        handler: (params: {
+          entry: {
+            source: string;
+            level: string;
+            text: string;
+            url?: string;
+            lineNumber?: number;
+            timestamp: number;
+            stackTrace?: CDP.StackTrace;
+          };
+        }) => void
+      ): () => void;
+    };
+    DOM: {
+      enable(params?: {}, sessionId?: string): Promise<void>;
+      resolveNode(params: {
+        backendNodeId?: number;
+        objectGroup?: string;
+      }): Promise<{ object: CDP.RemoteObject }>;
+      getBoxModel(
+        params: {
+          objectId?: string;
+          backendNodeId?: number;
+        },
+        sessionId?: string
+      ): Promise<{ model: { content: number[]; border: number[]; width: number; height: number } }>;
+      describeNode(
+        params: { objectId?: string; backendNodeId?: number },
+        sessionId?: string
+      ): Promise<{ node: { nodeName: string; backendNodeId: number; frameId?: string } }>;
+      getFrameOwner(
+        params: { frameId: string },
+        sessionId?: string
+      ): Promise<{ backendNodeId: number; nodeId?: number }>;
+      setFileInputFiles(
+        params: { files: string[]; objectId?: string; backendNodeId?: number },
+        sessionId?: string
+      ): Promise<void>;
+    };
+    Network: {
+      enable(params?: { maxResourceBufferSize?: number; maxTotalBufferSize?: number }): Promise<void>;
+      emulateNetworkConditions(params: {
+        offline: boolean;
+        /** Added round-trip latency in ms */
+        latency: number;
+        /** Bytes per second; -1 disables throttling */
+        downloadThroughput: number;
+        uploadThroughput: number;
+      }): Promise<void>;
+      requestWillBeSent(
+        handler: (params: {
+          requestId: string;
+          request: { url: string; method: string; headers: Record<string, string>; postData?: string };
+          timestamp: number;
+          wallTime: number;
+          type?: string;
+          redirectResponse?: CDP.NetworkResponse;
+        }) => void
+      ): () => void;
+      responseReceived(
+        handler: (params: {
+          requestId: string;
+          timestamp: number;
+          type?: string;
+          response: CDP.NetworkResponse;
+        }) => void
+      ): () => void;
+      loadingFinished(
+        handler: (params: { requestId: string; timestamp: number; encodedDataLength: number }) => void
+      ): () => void;
+      loadingFailed(
+        handler: (params: {
+          requestId: string;
+          timestamp: number;
+          errorText: string;
+          canceled?: boolean;
+          blockedReason?: string;
+        }) => void
+      ): () => void;
+      getResponseBody(params: { requestId: string }): Promise<{ body: string; base64Encoded: boolean }>;
+      getCookies(params?: { urls?: string[] }): Promise<{ cookies: CDP.Cookie[] }>;
+      setCookie(params: CDP.CookieParam): Promise<{ success: boolean }>;
+      setCookies(params: { cookies: CDP.CookieParam[] }): Promise<void>;
+      deleteCookies(params: { name: string; url?: string; domain?: string; path?: string }): Promise<void>;
+    };
+    Fetch: {
+      enable(params?: {
+        patterns?: Array<{ urlPattern?: string; resourceType?: string; requestStage?: "Request" | "Response" }>;
+      }): Promise<void>;
+      disable(): Promise<void>;
+      requestPaused(
+        handler: (params: {
+          requestId: string;
+          request: { url: string; method: string; headers: Record<string, string> };
+          frameId: string;
+          resourceType: string;
+          responseStatusCode?: number;
+          networkId?: string;
+        }) => void
+      ): () => void;
+      continueRequest(params: { requestId: string }): Promise<void>;
+      failRequest(params: { requestId: string; errorReason: string }): Promise<void>;
+      fulfillRequest(params: {
+        requestId: string;
+        responseCode: number;
+        responseHeaders?: Array<{ name: string; value: string }>;
+        body?: string;
+        responsePhrase?: string;
+      }): Promise<void>;
+    };
+    Performance: {
+      enable(params?: { timeDomain?: "timeTicks" | "threadTicks" }): Promise<void>;
+      disable(): Promise<void>;
+      getMetrics(): Promise<{ metrics: Array<{ name: string; value: number }> }>;
+    };
+    Emulation: {
+      setCPUThrottlingRate(params: { rate: number }): Promise<void>;
+      setDeviceMetricsOverride(params: {
+        width: number;
+        height: number;
+        deviceScaleFactor: number;
+        mobile: boolean;
+      }): Promise<void>;
+      clearDeviceMetricsOverride(): Promise<void>;
+      setTouchEmulationEnabled(params: { enabled: boolean; maxTouchPoints?: number }): Promise<void>;
+      setUserAgentOverride(params: { userAgent: string; acceptLanguage?: string; platform?: string }): Promise<void>;
+      setLocaleOverride(params: { locale?: string }): Promise<void>;
+      setTimezoneOverride(params: { timezoneId: string }): Promise<void>;
+      setGeolocationOverride(params: { latitude?: number; longitude?: number; accuracy?: number }): Promise<void>;
+      clearGeolocationOverride(): Promise<void>;
+      setEmulatedMedia(params: { media?: string; features?: Array<{ name: string; value: string }> }): Promise<void>;
+    };
+    Browser: {
+      getVersion(): Promise<{ product: string; userAgent: string; protocolVersion: string }>;
+      grantPermissions(params: { permissions: string[]; origin?: string }): Promise<void>;
+      setDownloadBehavior(params: {
+        behavior: "deny" | "allow" | "allowAndName" | "default";
+        downloadPath?: string;
+        eventsEnabled?: boolean;
+      }): Promise<void>;
+      downloadWillBegin(handler: (params: CDP.DownloadWillBegin) => void): () => void;
+      downloadProgress(handler: (params: CDP.DownloadProgress) => void): () => void;
+    };
+    Target: {
+      setDiscoverTargets(params: { discover: boolean }): Promise<void>;
+      setAutoAttach(
+        params: {
+          autoAttach: boolean;
+          waitForDebuggerOnStart: boolean;
+          flatten?: boolean;
+          filter?: Array<{ type?: string; exclude?: boolean }>;
+        },
+        sessionId?: string
+      ): Promise<void>;
+      attachedToTarget(
+        handler: (
+          params: { sessionId: string; targetInfo: CDP.TargetInfo; waitingForDebugger: boolean },
+          parentSessionId?: string
+        ) => void
+      ): () => void;
+      detachedFromTarget(handler: (params: { sessionId: string; targetId?: string }) => void): () => void;
+      targetCreated(handler: (params: { targetInfo: CDP.TargetInfo }) => void): () => void;
+      targetInfoChanged(handler: (params: { targetInfo: CDP.TargetInfo }) => void): () => void;
+      targetDestroyed(handler: (params: { targetId: string }) => void): () => void;
+    };
+    Accessibility: {
+      getFullAXTree(params?: { depth?: number }): Promise<{ nodes: CDP.AXNode[] }>;
     };
     Input: {
       dispatchKeyEvent(params: {
@@ -36,6 +300,30 @@ declare module "chrome-remote-interface" {
         unmodifiedText?: string;
         windowsVirtualKeyCode?: number;
         modifiers?: number;
+        location?: number;
+        autoRepeat?: boolean;
+        commands?: string[];
+      }): Promise<void>;
+      insertText(params: { text: string }): Promise<void>;
+      dispatchMouseEvent(params: {
+        type: "mouseMoved" | "mousePressed" | "mouseReleased" | "mouseWheel";
+        x: number;
+        y: number;
+        button?: "none" | "left" | "middle" | "right";
+        buttons?: number;
+        clickCount?: number;
+        modifiers?: number;
+        deltaX?: number;
+        deltaY?: number;
+      }): Promise<void>;
+      setInterceptDrags(params: { enabled: boolean }): Promise<void>;
+      dragIntercepted(handler: (params: { data: CDP.DragData }) => void): () => void;
+      dispatchDragEvent(params: {
+        type: string;
+        x: number;
+        y: number;
+        data: CDP.DragData;
+        modifiers?: number;
       }): Promise<void>;
     };
     close(): Promise<void>;
@@ -62,8 +350,137 @@ declare module "chrome-remote-interface" {
       host?: string;
       port?: number;
     }): Promise<CDPTarget[]>;
+    function New(options?: {
+      host?: string;
+      port?: number;
+      url?: string;
+    }): Promise<CDPTarget>;
+    function Close(options: {
+      host?: string;
+      port?: number;
+      id: string;
+    }): Promise<void>;
 
     type Client = CDPClient;
+
+    interface AXValue {
+      type: string;
+      value?: any;
+    }
+
+    interface AXNode {
+      nodeId: string;
+      ignored: boolean;
+      role?: AXValue;
+      name?: AXValue;
+      value?: AXValue;
+      properties?: Array<{ name: string; value: AXValue }>;
+      parentId?: string;
+      childIds?: string[];
+      backendDOMNodeId?: number;
+    }
+
+    interface NetworkResponse {
+      url: string;
+      status: number;
+      statusText: string;
+      headers: Record<string, string>;
+      mimeType: string;
+      protocol?: string;
+      remoteIPAddress?: string;
+    }
+
+    interface Cookie {
+      name: string;
+      value: string;
+      domain: string;
+      path: string;
+      /** Seconds since epoch; -1 for session cookies */
+      expires: number;
+      httpOnly: boolean;
+      secure: boolean;
+      session: boolean;
+      sameSite?: string;
+    }
+
+    interface CookieParam {
+      name: string;
+      value: string;
+      url?: string;
+      domain?: string;
+      path?: string;
+      secure?: boolean;
+      httpOnly?: boolean;
+      sameSite?: string;
+      expires?: number;
+    }
+
+    interface FrameTree {
+      frame: { id: string; parentId?: string; url: string; name?: string };
+      childFrames?: FrameTree[];
+    }
+
+    interface TargetInfo {
+      targetId: string;
+      type: string;
+      title: string;
+      url: string;
+      attached: boolean;
+      openerId?: string;
+    }
+
+    interface ExceptionDetails {
+      text: string;
+      url?: string;
+      lineNumber?: number;
+      columnNumber?: number;
+      exception?: CDP.RemoteObject;
+      stackTrace?: CDP.StackTrace;
+    }
+
+    interface StackTrace {
+      description?: string;
+      callFrames: Array<{
+        functionName: string;
+        url: string;
+        lineNumber: number;
+        columnNumber: number;
+      }>;
+    }
+
+    interface DownloadWillBegin {
+      frameId: string;
+      guid: string;
+      url: string;
+      suggestedFilename: string;
+    }
+
+    interface DownloadProgress {
+      guid: string;
+      totalBytes: number;
+      receivedBytes: number;
+      state: "inProgress" | "completed" | "canceled";
+      /** Final location, reported by newer Chrome on completion */
+      filePath?: string;
+    }
+
+    /** Drag payload captured by Input.dragIntercepted */
+    interface DragData {
+      items: Array<{ mimeType: string; data: string; title?: string; baseURL?: string }>;
+      files?: string[];
+      /** Bit field of allowed drag operations (copy = 1, link = 2, move = 16) */
+      dragOperationsMask: number;
+    }
+
+    interface RemoteObject {
+      type: string;
+      subtype?: string;
+      className?: string;
+      value?: any;
+      unserializableValue?: string;
+      description?: string;
+      objectId?: string;
+    }
   }
 
   export = CDP;